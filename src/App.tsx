@@ -1,78 +1,229 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { HomeScreen } from './components/HomeScreen';
 import { ListSelector } from './components/ListSelector';
-import { SpellingQuiz, QuizResult } from './components/SpellingQuiz';
+import { SpellingQuiz, QuizResult, QuizEndReason } from './components/SpellingQuiz';
 import { ResultsScreen } from './components/ResultsScreen';
 import { SettingsPage } from './components/SettingsPage';
-import { useSettings } from './hooks/useSettings';
+import { HistoryScreen } from './components/HistoryScreen';
+import { BeeSetup, BeeWordList } from './components/BeeSetup';
+import { EliminationBee } from './components/EliminationBee';
+import { BeeWinnerScreen } from './components/BeeWinnerScreen';
+import { AppStatus } from './components/AppStatus';
+import { SharedListImport } from './components/SharedListImport';
+import { WorksheetPrint } from './components/WorksheetPrint';
+import { QuizSetup } from './components/QuizSetup';
+import { useSettings, QuizMode } from './hooks/useSettings';
+import { useHistory } from './hooks/useHistory';
+import { useProfiles, getProfileKey } from './hooks/useProfiles';
 import { useTextToSpeech } from './hooks/useTextToSpeech';
-import { shuffleArray, SpellingWord } from './data/words';
+import { useHashRoute } from './hooks/useHashRoute';
+import { shuffleArray, SpellingWord, getDifficultyLabel, getWordKey, withWordId } from './data/words';
+import { getDueWords } from './data/scheduler';
+import { BeeState } from './data/eliminationBee';
+import { BackupData, HighScore } from './data/backup';
+import { saveDictionaryOverrides } from './services/dictionaryProviders';
+import { QuizListRoute, WordListRoute, formatRoute } from './data/routes';
+import { AdaptiveQuizOptions } from './data/staircase';
+import { QuizSetupOptions, buildQuiz } from './data/quizSetup';
+import { WorksheetSettings } from './data/worksheet';
 import './App.css';
 
-type Screen = 'home' | 'select' | 'quiz' | 'results' | 'settings';
-
-interface HighScore {
-  score: number;
-  total: number;
-}
+const HIGH_SCORE_KEY = 'spellingBeeHighScore';
 
 function App() {
-  const [currentScreen, setCurrentScreen] = useState<Screen>('home');
+  const { route, navigate } = useHashRoute();
+  const currentScreen = route.screen;
+  const [activeQuizHash, setActiveQuizHash] = useState<string | null>(null); // route of the running quiz
   const [quizWords, setQuizWords] = useState<SpellingWord[]>([]);
+  const [quizListName, setQuizListName] = useState('');
+  const [quizStartedAt, setQuizStartedAt] = useState(0);
+  const [quizAdaptive, setQuizAdaptive] = useState<AdaptiveQuizOptions | null>(null);
   const [quizResults, setQuizResults] = useState<QuizResult[]>([]);
+  const [workingLevel, setWorkingLevel] = useState<number | null>(null); // from an adaptive quiz
   const [highScore, setHighScore] = useState<HighScore | null>(null);
   const [isNewHighScore, setIsNewHighScore] = useState(false);
+  const [beeSpellers, setBeeSpellers] = useState<string[]>([]);
+  const [finishedBee, setFinishedBee] = useState<BeeState | null>(null);
+
+  const {
+    profiles,
+    activeProfile,
+    sharedWordBank,
+    addProfile,
+    renameProfile,
+    deleteProfile,
+    switchProfile,
+    setSharedWordBank,
+  } = useProfiles();
+  const highScoreKey = getProfileKey(HIGH_SCORE_KEY, activeProfile.id);
 
   const {
     settings,
     words,
     customLists,
+    schedule,
+    stats,
     isLoaded,
     saveSettings,
     addWord,
-    removeWord,
+    removeWords,
     updateWord,
+    updateWords,
+    importWords,
     resetWords,
     resetAll,
+    restoreData,
+    recordQuizResults,
     getWordsForList,
     getWordsByDifficulty,
     saveCustomList,
     deleteCustomList,
-  } = useSettings();
+  } = useSettings(activeProfile.id, sharedWordBank);
 
   const {
     speak,
     voices,
   } = useTextToSpeech(settings.speechRate, settings.speechVoice);
 
+  const {
+    sessions,
+    addSession,
+    deleteSession,
+    clearHistory,
+  } = useHistory(activeProfile.id);
+
   // Load high score from localStorage
   useEffect(() => {
-    const saved = localStorage.getItem('spellingBeeHighScore');
-    if (saved) {
-      setHighScore(JSON.parse(saved));
-    }
-  }, []);
+    const saved = localStorage.getItem(highScoreKey);
+    setHighScore(saved ? JSON.parse(saved) : null);
+  }, [highScoreKey]);
 
   const handleGoToSelect = useCallback(() => {
-    setCurrentScreen('select');
+    navigate({ screen: 'select' });
+  }, [navigate]);
+
+  const startQuiz = useCallback((selectedWords: SpellingWord[], listName: string, adaptive: AdaptiveQuizOptions | null = null) => {
+    setQuizWords(selectedWords);
+    setQuizListName(listName);
+    setQuizAdaptive(adaptive);
+    setQuizStartedAt(Date.now());
   }, []);
 
+  // Words (in list order) and display name for a list link
+  const getListWords = useCallback((list: WordListRoute) => {
+    switch (list.type) {
+      case 'preset':
+        return {
+          words: getWordsByDifficulty(list.difficulty),
+          name: list.difficulty === 'all' ? 'All Words' : getDifficultyLabel(list.difficulty),
+        };
+      case 'custom':
+        return { words: getWordsForList(list.name), name: list.name };
+      case 'due':
+        return { words: getDueWords(words, schedule), name: 'Due Today' };
+    }
+  }, [getWordsByDifficulty, getWordsForList, words, schedule]);
+
+  // Lists follow the saved quiz setup. Adaptive quizzes pick from the whole
+  // word bank as they go.
+  const getQuizForList = useCallback((list: QuizListRoute) => {
+    if (list.type === 'adaptive') {
+      return {
+        words,
+        name: `Adaptive (from ${getDifficultyLabel(list.startLevel)})`,
+        adaptive: { startLevel: list.startLevel, maxWords: settings.adaptiveQuizLength },
+      };
+    }
+    const quiz = getListWords(list);
+    const allowMix = list.type === 'preset' && list.difficulty === 'all';
+    return { ...quiz, words: buildQuiz(quiz.words, settings.quizSetup, stats, allowMix), adaptive: null };
+  }, [getListWords, words, stats, settings.adaptiveQuizLength, settings.quizSetup]);
+
+  // Start the quiz named in the URL, whether it came from a click, a bookmark,
+  // a refresh or the back/forward buttons
+  useEffect(() => {
+    if (route.screen !== 'quiz') {
+      setActiveQuizHash(null);
+      return;
+    }
+    if (!isLoaded) return;
+
+    const hash = formatRoute(route);
+    if (activeQuizHash === hash) return;
+
+    const quiz = route.list && getQuizForList(route.list);
+    if (!quiz || quiz.words.length === 0) {
+      if (quiz) alert('That word list is empty, or no words match the quiz setup. Pick another one!');
+      navigate({ screen: 'select' }, { replace: true });
+      return;
+    }
+    setActiveQuizHash(hash);
+    startQuiz(quiz.words, quiz.name, quiz.adaptive);
+  }, [route, isLoaded, activeQuizHash, getQuizForList, startQuiz, navigate]);
+
+  // Screens that need in-app state can't be opened from a link alone
+  useEffect(() => {
+    if (route.screen === 'results' && quizResults.length === 0) {
+      navigate({ screen: 'home' }, { replace: true });
+    } else if (route.screen === 'bee' && beeSpellers.length === 0) {
+      navigate({ screen: 'bee-setup' }, { replace: true });
+    } else if (route.screen === 'bee-winner' && !finishedBee) {
+      navigate({ screen: 'bee-setup' }, { replace: true });
+    }
+  }, [route, quizResults, beeSpellers, finishedBee, navigate]);
+
+  // Lists open their quiz setup first
   const handleSelectPreset = useCallback((difficulty: 1 | 2 | 3 | 'all') => {
-    const selectedWords = getWordsByDifficulty(difficulty);
-    const shuffled = shuffleArray(selectedWords);
-    setQuizWords(shuffled);
-    setCurrentScreen('quiz');
-  }, [getWordsByDifficulty]);
+    navigate({ screen: 'setup', list: { type: 'preset', difficulty } });
+  }, [navigate]);
 
   const handleSelectCustomList = useCallback((listName: string) => {
-    const selectedWords = getWordsForList(listName);
-    const shuffled = shuffleArray(selectedWords);
-    setQuizWords(shuffled);
-    setCurrentScreen('quiz');
-  }, [getWordsForList]);
+    navigate({ screen: 'setup', list: { type: 'custom', name: listName } });
+  }, [navigate]);
+
+  const handleSelectDue = useCallback(() => {
+    navigate({ screen: 'setup', list: { type: 'due' } });
+  }, [navigate]);
 
-  const handleQuizComplete = useCallback((results: QuizResult[]) => {
+  const handleChangeQuizSetup = useCallback((quizSetup: QuizSetupOptions) => {
+    saveSettings({ quizSetup });
+  }, [saveSettings]);
+
+  const handleStartSetupQuiz = useCallback(() => {
+    if (route.screen === 'setup') {
+      navigate({ screen: 'quiz', list: route.list });
+    }
+  }, [route, navigate]);
+
+  const handleSelectAdaptive = useCallback((startLevel: 1 | 2 | 3) => {
+    navigate({ screen: 'quiz', list: { type: 'adaptive', startLevel } });
+  }, [navigate]);
+
+  const handleChangeAdaptiveQuizLength = useCallback((adaptiveQuizLength: number) => {
+    saveSettings({ adaptiveQuizLength });
+  }, [saveSettings]);
+
+  const handleRerunSession = useCallback((sessionWords: SpellingWord[], listName: string) => {
+    const quizRoute = { screen: 'quiz', list: null } as const;
+    // Use the bank's current version of each word; older sessions saved words without ids
+    const bankByKey = new Map(words.map(w => [getWordKey(w), w]));
+    const rerunWords = sessionWords.map(w => bankByKey.get(getWordKey(w)) ?? withWordId(w));
+    startQuiz(shuffleArray(rerunWords), listName);
+    setActiveQuizHash(formatRoute(quizRoute));
+    navigate(quizRoute);
+  }, [words, startQuiz, navigate]);
+
+  const handleQuizComplete = useCallback((results: QuizResult[], endedBy: QuizEndReason, level?: number) => {
     setQuizResults(results);
+    setWorkingLevel(level ?? null);
+    recordQuizResults(results);
+    addSession({
+      listName: quizListName,
+      startedAt: quizStartedAt,
+      endedAt: Date.now(),
+      endedBy,
+      results,
+    });
     
     // Only count answered words for high score
     const answeredResults = results.filter(r => r.correct !== null);
@@ -88,7 +239,7 @@ function App() {
         const newHighScore = { score, total };
         setHighScore(newHighScore);
         setIsNewHighScore(true);
-        localStorage.setItem('spellingBeeHighScore', JSON.stringify(newHighScore));
+        localStorage.setItem(highScoreKey, JSON.stringify(newHighScore));
       } else {
         setIsNewHighScore(false);
       }
@@ -96,38 +247,82 @@ function App() {
       setIsNewHighScore(false);
     }
     
-    setCurrentScreen('results');
-  }, [highScore]);
+    // Results replace the quiz in history so Back doesn't restart it
+    navigate({ screen: 'results' }, { replace: true });
+  }, [highScore, highScoreKey, recordQuizResults, addSession, quizListName, quizStartedAt, navigate]);
 
   const handlePlayAgain = useCallback(() => {
     // Go back to word selection
-    setCurrentScreen('select');
-  }, []);
+    navigate({ screen: 'select' });
+  }, [navigate]);
 
   const handleGoHome = useCallback(() => {
-    setCurrentScreen('home');
+    navigate({ screen: 'home' });
     setIsNewHighScore(false);
-  }, []);
+  }, [navigate]);
 
   const handleExitQuiz = useCallback(() => {
-    setCurrentScreen('home');
-  }, []);
+    navigate({ screen: 'home' });
+  }, [navigate]);
 
   const handleOpenSettings = useCallback(() => {
-    setCurrentScreen('settings');
-  }, []);
+    navigate({ screen: 'settings', section: null });
+  }, [navigate]);
+
+  const handleOpenHistory = useCallback(() => {
+    navigate({ screen: 'history' });
+  }, [navigate]);
+
+  // === Elimination bee ===
+
+  const handleOpenBeeSetup = useCallback(() => {
+    navigate({ screen: 'bee-setup' });
+  }, [navigate]);
+
+  const handleStartBee = useCallback((spellers: string[], list: BeeWordList) => {
+    const selectedWords = list.type === 'preset'
+      ? getWordsByDifficulty(list.difficulty)
+      : getWordsForList(list.name);
+    if (selectedWords.length === 0) {
+      alert('That word list is empty. Pick another one!');
+      return;
+    }
+    setBeeSpellers(spellers);
+    setQuizWords(shuffleArray(selectedWords));
+    setFinishedBee(null);
+    navigate({ screen: 'bee' });
+  }, [getWordsByDifficulty, getWordsForList, navigate]);
+
+  const handleBeeFinished = useCallback((bee: BeeState) => {
+    setFinishedBee(bee);
+    navigate({ screen: 'bee-winner' }, { replace: true });
+  }, [navigate]);
 
   const handleTestVoice = useCallback((text: string, rate: number, voiceURI: string) => {
     speak(text, { rate, voiceURI });
   }, [speak]);
 
   const handleResetAll = useCallback(() => {
-    if (window.confirm('Are you sure you want to reset all settings and restore the original word list?')) {
+    const resetting = sharedWordBank
+      ? 'reset all settings, lists and progress (the shared word list is kept)'
+      : 'reset all settings, lists and progress and restore the original word list';
+    if (window.confirm(`Are you sure you want to ${resetting}? This can't be undone unless you have a backup.`)) {
       resetAll();
       setHighScore(null);
-      localStorage.removeItem('spellingBeeHighScore');
+      localStorage.removeItem(highScoreKey);
     }
-  }, [resetAll]);
+  }, [resetAll, highScoreKey, sharedWordBank]);
+
+  const handleRestoreBackup = useCallback((backup: BackupData) => {
+    restoreData(backup);
+    saveDictionaryOverrides(backup.dictionaryOverrides);
+    setHighScore(backup.highScore);
+    if (backup.highScore) {
+      localStorage.setItem(highScoreKey, JSON.stringify(backup.highScore));
+    } else {
+      localStorage.removeItem(highScoreKey);
+    }
+  }, [restoreData, highScoreKey]);
 
   const handleResetWords = useCallback(() => {
     if (window.confirm('Are you sure you want to restore the original word list? Your voice settings will be kept.')) {
@@ -139,10 +334,54 @@ function App() {
     saveSettings({ speechRate: rate, speechVoice: voice });
   }, [saveSettings]);
 
+  const handleChangeQuizMode = useCallback((quizMode: QuizMode) => {
+    saveSettings({ quizMode });
+  }, [saveSettings]);
+
+  const handleImportSharedList = useCallback((newWords: SpellingWord[], listName: string, wordIds: string[]) => {
+    if (newWords.length > 0) {
+      importWords(newWords, 'merge');
+    }
+    saveCustomList(listName, wordIds);
+    alert(`Saved the "${listName}" list${newWords.length > 0 ? ` and added ${newWords.length} new word${newWords.length !== 1 ? 's' : ''}` : ''}!`);
+    navigate({ screen: 'select' }, { replace: true });
+  }, [importWords, saveCustomList, navigate]);
+
+  const handleCancelSharedList = useCallback(() => {
+    navigate({ screen: 'home' }, { replace: true });
+  }, [navigate]);
+
+  const handleOpenWorksheet = useCallback(() => {
+    navigate({ screen: 'print', list: null });
+  }, [navigate]);
+
+  const handlePrintCustomList = useCallback((listName: string) => {
+    navigate({ screen: 'print', list: { type: 'custom', name: listName } });
+  }, [navigate]);
+
+  const handleChangeWorksheetList = useCallback((list: WordListRoute) => {
+    navigate({ screen: 'print', list }, { replace: true });
+  }, [navigate]);
+
+  const handleChangeWorksheetSettings = useCallback((worksheet: WorksheetSettings) => {
+    saveSettings({ worksheet });
+  }, [saveSettings]);
+
   const handleSaveWrongWordsAsList = useCallback((wordIds: string[]) => {
     saveCustomList('Last Wrong', wordIds);
   }, [saveCustomList]);
 
+  // Kept stable so the worksheet only looks words up again when the list changes
+  const worksheetList = useMemo<WordListRoute>(
+    () => (route.screen === 'print' && route.list) || { type: 'preset', difficulty: 'all' },
+    [route]
+  );
+  const worksheet = useMemo(
+    () => route.screen === 'print' ? getListWords(worksheetList) : null,
+    [route.screen, worksheetList, getListWords]
+  );
+  const setupList = route.screen === 'setup' ? getListWords(route.list) : null;
+
   if (!isLoaded) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
@@ -156,10 +395,21 @@ function App() {
 
   return (
     <div className="min-h-screen">
+      <AppStatus />
+
       {currentScreen === 'home' && (
         <HomeScreen
           onStartQuiz={handleGoToSelect}
           onOpenSettings={handleOpenSettings}
+          onOpenHistory={handleOpenHistory}
+          onStartBee={handleOpenBeeSetup}
+          onOpenWorksheet={handleOpenWorksheet}
+          profiles={profiles}
+          activeProfileId={activeProfile.id}
+          onSwitchProfile={switchProfile}
+          onAddProfile={addProfile}
+          onRenameProfile={renameProfile}
+          onDeleteProfile={deleteProfile}
           highScore={highScore}
           wordCount={words.length}
         />
@@ -169,20 +419,46 @@ function App() {
         <ListSelector
           words={words}
           customLists={customLists}
+          schedule={schedule}
+          quizMode={settings.quizMode}
+          onChangeQuizMode={handleChangeQuizMode}
           onSelectPreset={handleSelectPreset}
           onSelectCustomList={handleSelectCustomList}
+          onSelectDue={handleSelectDue}
+          onSelectAdaptive={handleSelectAdaptive}
+          adaptiveQuizLength={settings.adaptiveQuizLength}
+          onChangeAdaptiveQuizLength={handleChangeAdaptiveQuizLength}
+          onPrintCustomList={handlePrintCustomList}
           onBack={handleGoHome}
         />
       )}
       
-      {currentScreen === 'quiz' && quizWords.length > 0 && (
+      {route.screen === 'setup' && setupList && (
+        <QuizSetup
+          listName={setupList.name}
+          words={setupList.words}
+          allowMix={route.list.type === 'preset' && route.list.difficulty === 'all'}
+          options={settings.quizSetup}
+          onChangeOptions={handleChangeQuizSetup}
+          onStart={handleStartSetupQuiz}
+          onBack={handleGoToSelect}
+        />
+      )}
+
+      {currentScreen === 'quiz' && activeQuizHash === formatRoute(route) && quizWords.length > 0 && (
         <SpellingQuiz
+          key={quizStartedAt}
           words={quizWords}
           onComplete={handleQuizComplete}
           onExit={handleExitQuiz}
           speechRate={settings.speechRate}
           speechVoice={settings.speechVoice}
           onSaveVoiceSettings={handleSaveVoiceSettings}
+          preferRecordedAudio={settings.preferRecordedAudio}
+          mode={settings.quizMode}
+          timeLimitSeconds={settings.timerEnabled ? settings.timeLimitSeconds : 0}
+          timeoutAction={settings.timeoutAction}
+          adaptive={quizAdaptive ?? undefined}
         />
       )}
       
@@ -192,19 +468,85 @@ function App() {
           onPlayAgain={handlePlayAgain}
           onGoHome={handleGoHome}
           isNewHighScore={isNewHighScore}
+          workingLevel={workingLevel}
           onSaveWrongWordsAsList={handleSaveWrongWordsAsList}
         />
       )}
 
+      {currentScreen === 'bee-setup' && (
+        <BeeSetup
+          words={words}
+          customLists={customLists}
+          onStart={handleStartBee}
+          onBack={handleGoHome}
+        />
+      )}
+
+      {currentScreen === 'bee' && quizWords.length > 0 && (
+        <EliminationBee
+          spellers={beeSpellers}
+          words={quizWords}
+          speechRate={settings.speechRate}
+          speechVoice={settings.speechVoice}
+          preferRecordedAudio={settings.preferRecordedAudio}
+          onFinish={handleBeeFinished}
+          onExit={handleExitQuiz}
+        />
+      )}
+
+      {currentScreen === 'bee-winner' && finishedBee && (
+        <BeeWinnerScreen
+          bee={finishedBee}
+          onNewBee={handleOpenBeeSetup}
+          onGoHome={handleGoHome}
+        />
+      )}
+
+      {currentScreen === 'history' && (
+        <HistoryScreen
+          sessions={sessions}
+          onRerun={handleRerunSession}
+          onDeleteSession={deleteSession}
+          onClearHistory={clearHistory}
+          onBack={handleGoHome}
+        />
+      )}
+
+      {route.screen === 'share' && (
+        <SharedListImport
+          data={route.data}
+          words={words}
+          customLists={customLists}
+          onImport={handleImportSharedList}
+          onCancel={handleCancelSharedList}
+        />
+      )}
+
+      {worksheet && (
+        <WorksheetPrint
+          list={worksheetList}
+          listName={worksheet.name}
+          words={worksheet.words}
+          customLists={customLists}
+          settings={settings.worksheet}
+          onChangeSettings={handleChangeWorksheetSettings}
+          onChangeList={handleChangeWorksheetList}
+          onBack={handleGoHome}
+        />
+      )}
+
       {currentScreen === 'settings' && (
         <SettingsPage
           settings={settings}
           words={words}
+          stats={stats}
           customLists={customLists}
           onSaveSettings={saveSettings}
           onAddWord={addWord}
-          onRemoveWord={removeWord}
+          onRemoveWords={removeWords}
           onUpdateWord={updateWord}
+          onUpdateWords={updateWords}
+          onImportWords={importWords}
           onResetWords={handleResetWords}
           onResetAll={handleResetAll}
           onBack={handleGoHome}
@@ -212,6 +554,12 @@ function App() {
           onTestVoice={handleTestVoice}
           onSaveCustomList={saveCustomList}
           onDeleteCustomList={deleteCustomList}
+          profileName={activeProfile.name}
+          sharedWordBank={sharedWordBank}
+          onChangeSharedWordBank={setSharedWordBank}
+          highScore={highScore}
+          onRestoreBackup={handleRestoreBackup}
+          section={route.screen === 'settings' ? route.section : null}
         />
       )}
     </div>
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { WifiOff, Download, X } from 'lucide-react';
+import { useAppStatus } from '../hooks/useAppStatus';
+
+// Offline indicator and "update available" prompt, shown over every screen
+export function AppStatus() {
+  const { isOnline, updateAvailable, applyUpdate, dismissUpdate } = useAppStatus();
+
+  if (isOnline && !updateAvailable) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2 w-[calc(100%-2rem)] max-w-md print:hidden">
+      {!isOnline && (
+        <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-[#1A1A2E] text-white text-sm shadow-lg">
+          <WifiOff className="w-4 h-4 text-[#F4B942]" />
+          Offline: saved words and definitions still work
+        </div>
+      )}
+
+      {updateAvailable && (
+        <div className="w-full flex items-center gap-3 p-3 rounded-2xl bg-white border-2 border-[#F4B942] shadow-lg">
+          <Download className="w-5 h-5 text-[#D4941C] shrink-0" />
+          <p className="flex-1 text-sm text-[#1A1A2E]">A new version of Spelling Bee is ready.</p>
+          <Button onClick={applyUpdate} size="sm">
+            Update
+          </Button>
+          <Button onClick={dismissUpdate} variant="ghost" size="icon" className="h-8 w-8" aria-label="Later">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React, { useState, useRef } from 'react';
+import { Button } from './ui/button';
+import { HardDriveDownload, HardDriveUpload, AlertTriangle, Check, X } from 'lucide-react';
+import { AppSettings, CustomWordList } from '../hooks/useSettings';
+import { SpellingWord } from '../data/words';
+import {
+  BackupData,
+  CountDiff,
+  HighScore,
+  createBackup,
+  parseBackup,
+  diffBackup,
+} from '../data/backup';
+import { getDictionaryOverrides } from '../services/dictionaryProviders';
+import { downloadTextFile, toFileName } from '../lib/download';
+
+interface BackupRestoreProps {
+  profileName: string;
+  settings: AppSettings;
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  highScore: HighScore | null;
+  onRestore: (backup: BackupData) => void;
+}
+
+const SETTING_LABELS: Record<keyof AppSettings, string> = {
+  speechRate: 'Speech speed',
+  speechVoice: 'Voice',
+  preferRecordedAudio: 'Recorded pronunciations',
+  quizMode: 'Quiz mode',
+  timerEnabled: 'Timer',
+  timeLimitSeconds: 'Time limit',
+  timeoutAction: 'When time runs out',
+  worksheet: 'Worksheet layout',
+  adaptiveQuizLength: 'Adaptive quiz length',
+  quizSetup: 'Quiz setup',
+};
+
+function formatCounts({ added, removed, changed }: CountDiff): string {
+  const parts = [
+    added > 0 && `${added} added`,
+    removed > 0 && `${removed} removed`,
+    changed > 0 && `${changed} changed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
+function formatHighScore(highScore: HighScore | null): string {
+  return highScore ? `${highScore.score}/${highScore.total}` : 'none';
+}
+
+export function BackupRestore({ profileName, settings, words, customLists, highScore, onRestore }: BackupRestoreProps) {
+  const [pending, setPending] = useState<BackupData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const backupCurrentData = () => createBackup({
+    profileName,
+    settings,
+    words,
+    customLists,
+    highScore,
+    dictionaryOverrides: getDictionaryOverrides(),
+  });
+
+  const diff = pending ? diffBackup(backupCurrentData(), pending) : null;
+
+  const handleBackup = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(
+      `spelling-bee-backup-${toFileName(profileName)}-${date}.json`,
+      JSON.stringify(backupCurrentData(), null, 2),
+      'application/json'
+    );
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = parseBackup(String(reader.result || ''));
+      setPending(result.backup);
+      setError(result.error);
+    };
+    reader.readAsText(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleRestore = () => {
+    if (!pending) return;
+    onRestore(pending);
+    setPending(null);
+    alert('Backup restored!');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-[#1A1A2E]/70">
+        Save {profileName}'s settings, words, custom lists and high score, plus your own definitions, to a file.
+        Restoring a backup replaces them.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <Button onClick={handleBackup} className="gap-2">
+          <HardDriveDownload className="w-4 h-4" />
+          Download Backup
+        </Button>
+        <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="gap-2">
+          <HardDriveUpload className="w-4 h-4" />
+          Restore from File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {pending && diff && (
+        <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-3">
+          <p className="font-semibold text-[#1A1A2E]">
+            Backup of {pending.profileName} from {new Date(pending.createdAt).toLocaleString()}
+          </p>
+          <ul className="text-sm text-[#1A1A2E]/80 space-y-1">
+            <li>
+              <strong>Words:</strong> {pending.words.length} ({formatCounts(diff.words)})
+            </li>
+            <li>
+              <strong>Custom lists:</strong> {pending.customLists.length} ({formatCounts(diff.customLists)})
+            </li>
+            <li>
+              <strong>My definitions:</strong> {Object.keys(pending.dictionaryOverrides).length} ({formatCounts(diff.dictionaryOverrides)})
+            </li>
+            <li>
+              <strong>Settings:</strong>{' '}
+              {diff.settingsChanged.length > 0
+                ? diff.settingsChanged.map(key => SETTING_LABELS[key] ?? key).join(', ')
+                : 'no changes'}
+            </li>
+            <li>
+              <strong>High score:</strong> {formatHighScore(diff.highScore.current)} → {formatHighScore(diff.highScore.restored)}
+            </li>
+          </ul>
+          <div className="flex gap-2">
+            <Button onClick={handleRestore} className="gap-2">
+              <Check className="w-4 h-4" />
+              Restore Backup
+            </Button>
+            <Button onClick={() => setPending(null)} variant="ghost" className="gap-2">
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Check, X, Crown } from 'lucide-react';
+import { BeeState, BeeRound } from '../data/eliminationBee';
+import { cn } from '../lib/utils';
+
+interface BeeBracketProps {
+  bee: BeeState;
+}
+
+function getOutcomeText(round: BeeRound, spellers: string[]): string | null {
+  switch (round.outcome) {
+    case 'in-progress': return null;
+    case 'all-correct': return 'Everyone spelled correctly!';
+    case 'all-missed': return 'Everyone missed, so everyone stays in.';
+    case 'eliminations': return `Out: ${round.eliminated.map(i => spellers[i]).join(', ')}`;
+    case 'champion': return `${spellers[round.order[0]]} is the champion!`;
+    case 'championship-missed': return 'Championship word missed. The last round\'s spellers are back in!';
+    case 'out-of-words': return 'Ran out of words.';
+  }
+}
+
+export function BeeBracket({ bee }: BeeBracketProps) {
+  return (
+    <div className="space-y-3">
+      {bee.rounds.map((round) => {
+        const outcome = getOutcomeText(round, bee.spellers);
+        if (round.turns.length === 0 && !outcome) return null;
+        return (
+          <div
+            key={round.number}
+            className={cn(
+              "rounded-xl border-2 p-3 bg-white/80",
+              round.isChampionship ? "border-[#F4B942]" : "border-gray-200"
+            )}
+          >
+            <h4 className="text-sm font-semibold text-[#1A1A2E] mb-2 flex items-center gap-1">
+              {round.isChampionship && <Crown className="w-4 h-4 text-[#D4941C]" />}
+              {round.isChampionship ? 'Championship Word' : `Round ${round.number}`}
+            </h4>
+            <div className="space-y-1">
+              {round.turns.map((turn, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    "flex items-center justify-between p-2 rounded-lg text-sm",
+                    turn.correct ? "bg-green-50" : "bg-red-50"
+                  )}
+                >
+                  <span className="font-medium text-[#1A1A2E]">{bee.spellers[turn.speller]}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="letter-slot">{turn.word.word}</span>
+                    {turn.correct
+                      ? <Check className="w-4 h-4 text-green-600" />
+                      : <X className="w-4 h-4 text-red-600" />}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {outcome && (
+              <p className="text-xs text-[#1A1A2E]/70 mt-2 italic">{outcome}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { ArrowLeft, Plus, Trash2, Users, Play } from 'lucide-react';
+import { CustomWordList } from '../hooks/useSettings';
+import { SpellingWord } from '../data/words';
+import { resolveListWords } from '../data/customLists';
+
+export type BeeWordList =
+  | { type: 'preset'; difficulty: 1 | 2 | 3 | 'all' }
+  | { type: 'custom'; name: string };
+
+interface BeeSetupProps {
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  onStart: (spellers: string[], list: BeeWordList) => void;
+  onBack: () => void;
+}
+
+const MAX_SPELLERS = 8;
+
+export function BeeSetup({ words, customLists, onStart, onBack }: BeeSetupProps) {
+  const [spellers, setSpellers] = useState<string[]>(['', '']);
+  const [listChoice, setListChoice] = useState('all');
+
+  const trimmedNames = spellers.map(s => s.trim()).filter(s => s !== '');
+  const hasDuplicates = new Set(trimmedNames.map(n => n.toLowerCase())).size !== trimmedNames.length;
+  const canStart = trimmedNames.length >= 2 && !hasDuplicates;
+
+  const handleChangeName = (index: number, name: string) => {
+    setSpellers(prev => prev.map((s, i) => (i === index ? name : s)));
+  };
+
+  const handleAddSpeller = () => {
+    if (spellers.length >= MAX_SPELLERS) return;
+    setSpellers(prev => [...prev, '']);
+  };
+
+  const handleRemoveSpeller = (index: number) => {
+    setSpellers(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStart = () => {
+    if (!canStart) return;
+    const list: BeeWordList = listChoice.startsWith('custom:')
+      ? { type: 'custom', name: listChoice.slice('custom:'.length) }
+      : { type: 'preset', difficulty: listChoice === 'all' ? 'all' : parseInt(listChoice) as 1 | 2 | 3 };
+    onStart(trimmedNames, list);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button onClick={onBack} variant="ghost" size="sm" className="gap-2 text-[#1A1A2E]">
+            <ArrowLeft className="w-4 h-4" />
+            Home
+          </Button>
+          <h1 className="text-xl font-bold text-[#1A1A2E]">Spelling Bee Tournament</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-8 space-y-8">
+        <div className="text-center">
+          <span className="text-6xl animate-float inline-block">🐝</span>
+          <h2 className="text-2xl font-bold text-[#1A1A2E] mt-2">Who's spelling today?</h2>
+          <p className="text-sm text-[#1A1A2E]/60 mt-1">
+            Miss a word and you're out, unless everyone misses!
+          </p>
+        </div>
+
+        {/* Spellers */}
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 space-y-3">
+          <h3 className="font-semibold text-[#1A1A2E] flex items-center gap-2">
+            <Users className="w-5 h-5 text-[#D4941C]" />
+            Spellers
+          </h3>
+          {spellers.map((name, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                placeholder={`Speller ${index + 1}`}
+                value={name}
+                onChange={(e) => handleChangeName(index, e.target.value)}
+                className="flex-1 p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+              />
+              {spellers.length > 2 && (
+                <Button
+                  onClick={() => handleRemoveSpeller(index)}
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {spellers.length < MAX_SPELLERS && (
+            <Button onClick={handleAddSpeller} variant="outline" className="w-full gap-2">
+              <Plus className="w-4 h-4" />
+              Add Speller
+            </Button>
+          )}
+          {hasDuplicates && (
+            <p className="text-sm text-red-600">Each speller needs a different name.</p>
+          )}
+        </section>
+
+        {/* Word List */}
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 space-y-3">
+          <h3 className="font-semibold text-[#1A1A2E]">Word List</h3>
+          <select
+            value={listChoice}
+            onChange={(e) => setListChoice(e.target.value)}
+            className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+          >
+            <option value="all">All Words ({words.length})</option>
+            <option value="1">Easy ({words.filter(w => w.difficulty === 1).length})</option>
+            <option value="2">Medium ({words.filter(w => w.difficulty === 2).length})</option>
+            <option value="3">Hard ({words.filter(w => w.difficulty === 3).length})</option>
+            {customLists.map((list) => (
+              <option key={list.name} value={`custom:${list.name}`}>
+                {list.name} ({resolveListWords(list, words).words.length})
+              </option>
+            ))}
+          </select>
+        </section>
+
+        <Button
+          onClick={handleStart}
+          disabled={!canStart}
+          size="xl"
+          className="w-full gap-3 text-xl h-16"
+        >
+          <Play className="w-7 h-7" />
+          Start the Bee
+        </Button>
+      </main>
+    </div>
+  );
+}
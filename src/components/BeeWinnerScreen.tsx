@@ -0,0 +1,85 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Home, RotateCcw, Trophy } from 'lucide-react';
+import { BeeState, getSpellerScores } from '../data/eliminationBee';
+import { BeeBracket } from './BeeBracket';
+
+interface BeeWinnerScreenProps {
+  bee: BeeState;
+  onNewBee: () => void;
+  onGoHome: () => void;
+}
+
+export function BeeWinnerScreen({ bee, onNewBee, onGoHome }: BeeWinnerScreenProps) {
+  const scores = getSpellerScores(bee);
+  const winnerNames = bee.winners.map(i => bee.spellers[i]);
+  const isShared = winnerNames.length > 1;
+
+  // Winners first, then by words spelled correctly
+  const standings = bee.spellers
+    .map((name, i) => ({ name, index: i, score: scores[i] }))
+    .sort((a, b) => {
+      const aWon = bee.winners.includes(a.index) ? 1 : 0;
+      const bWon = bee.winners.includes(b.index) ? 1 : 0;
+      return bWon - aWon || b.score - a.score;
+    });
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-4 md:p-8 bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Decorative Background */}
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/4 left-1/4 text-4xl animate-float">⭐</div>
+        <div className="absolute top-1/3 right-1/4 text-3xl animate-float" style={{ animationDelay: '0.5s' }}>✨</div>
+        <div className="absolute bottom-1/3 left-1/3 text-4xl animate-float" style={{ animationDelay: '1s' }}>🌟</div>
+      </div>
+
+      <div className="relative z-10 w-full max-w-lg space-y-6">
+        <div className="bg-white/90 backdrop-blur-sm rounded-3xl p-8 shadow-2xl border border-[#F4B942]/30 space-y-6 text-center">
+          <div className="text-8xl animate-bounce-in">🏆</div>
+          <div>
+            <p className="text-sm uppercase tracking-wider text-[#1A1A2E]/60">
+              {isShared ? 'Co-Champions' : 'Champion'}
+            </p>
+            <h1 className="text-3xl md:text-4xl font-bold text-[#1A1A2E]">
+              {winnerNames.join(' & ')}
+            </h1>
+            {isShared && (
+              <p className="text-sm text-[#1A1A2E]/60 mt-1">The word list ran out with more than one speller still in.</p>
+            )}
+          </div>
+
+          {/* Standings */}
+          <div className="bg-gradient-to-br from-[#FEF9EF] to-[#FEF3C7] rounded-2xl p-4 space-y-2 text-left">
+            {standings.map((s, place) => (
+              <div key={s.name} className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-medium text-[#1A1A2E]">
+                  {bee.winners.includes(s.index)
+                    ? <Trophy className="w-4 h-4 text-[#D4941C]" />
+                    : <span className="w-4 text-center text-sm text-[#1A1A2E]/50">{place + 1}</span>}
+                  {s.name}
+                </span>
+                <span className="text-sm text-[#1A1A2E]/70">
+                  {s.score} word{s.score !== 1 ? 's' : ''} correct
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Button onClick={onNewBee} size="lg" className="flex-1 gap-2">
+              <RotateCcw className="w-5 h-5" />
+              New Bee
+            </Button>
+            <Button onClick={onGoHome} variant="outline" size="lg" className="flex-1 gap-2">
+              <Home className="w-5 h-5" />
+              Home
+            </Button>
+          </div>
+        </div>
+
+        <h2 className="text-lg font-semibold text-[#1A1A2E]">Round by Round</h2>
+        <BeeBracket bee={bee} />
+      </div>
+    </div>
+  );
+}
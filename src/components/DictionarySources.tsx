@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { ArrowUp, ArrowDown, Edit2, Trash2, Save, X, PenLine } from 'lucide-react';
+import {
+  DictionaryOverride,
+  DictionarySettings,
+  getRegisteredProviders,
+  loadDictionarySettings,
+  saveDictionarySettings,
+  getDictionaryOverrides,
+  saveDictionaryOverride,
+  deleteDictionaryOverride,
+} from '../services/dictionaryProviders';
+import { clearDictionaryCache, getCacheStats } from '../services/dictionaryApi';
+import { clearAudioCache } from '../services/audioCache';
+import { cn } from '../lib/utils';
+
+const EMPTY_OVERRIDE: DictionaryOverride = { partOfSpeech: '', definition: '', example: '' };
+
+export function DictionarySources() {
+  const [settings, setSettings] = useState<DictionarySettings>(loadDictionarySettings);
+  const [overrides, setOverrides] = useState(getDictionaryOverrides);
+  const [cacheStats, setCacheStats] = useState({ totalWords: 0, cacheSize: '0 bytes' });
+
+  // Override form
+  const [overrideWord, setOverrideWord] = useState('');
+  const [overrideDraft, setOverrideDraft] = useState<DictionaryOverride>(EMPTY_OVERRIDE);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats);
+  }, []);
+
+  const providersById = new Map(getRegisteredProviders().map(p => [p.id, p]));
+
+  const updateSettings = (updates: Partial<DictionarySettings>) => {
+    setSettings(prev => {
+      const updated = { ...prev, ...updates };
+      saveDictionarySettings(updated);
+      return updated;
+    });
+  };
+
+  const handleToggle = (id: string) => {
+    updateSettings({
+      providers: settings.providers.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p),
+    });
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= settings.providers.length) return;
+    const providers = [...settings.providers];
+    [providers[index], providers[target]] = [providers[target], providers[index]];
+    updateSettings({ providers });
+  };
+
+  const handleSaveOverride = () => {
+    const word = overrideWord.trim().toLowerCase();
+    if (!word || !overrideDraft.definition.trim()) return;
+    saveDictionaryOverride(word, {
+      partOfSpeech: overrideDraft.partOfSpeech.trim(),
+      definition: overrideDraft.definition.trim(),
+      example: overrideDraft.example.trim(),
+    });
+    setOverrides(getDictionaryOverrides());
+    setOverrideWord('');
+    setOverrideDraft(EMPTY_OVERRIDE);
+  };
+
+  const handleEditOverride = (word: string) => {
+    setOverrideWord(word);
+    setOverrideDraft(overrides[word]);
+  };
+
+  const handleDeleteOverride = (word: string) => {
+    if (window.confirm(`Delete your definition of "${word}"?`)) {
+      deleteDictionaryOverride(word);
+      setOverrides(getDictionaryOverrides());
+    }
+  };
+
+  const handleClearCache = () => {
+    clearDictionaryCache()
+      .catch(e => console.error('Failed to clear dictionary cache:', e))
+      .then(getCacheStats)
+      .then(setCacheStats);
+    clearAudioCache().catch(e => console.error('Failed to clear audio cache:', e));
+  };
+
+  const overrideWords = Object.keys(overrides).sort();
+
+  return (
+    <div className="space-y-6">
+      {/* Provider Order */}
+      <div className="space-y-2">
+        <p className="text-sm text-[#1A1A2E]/70">
+          Sources are checked from top to bottom. The first one that knows a word is used.
+        </p>
+        {settings.providers.map((setting, index) => {
+          const provider = providersById.get(setting.id);
+          if (!provider) return null;
+          return (
+            <div
+              key={setting.id}
+              className={cn(
+                "p-3 rounded-xl border-2 bg-white space-y-2",
+                setting.enabled ? "border-[#F4B942]/40" : "border-gray-200 opacity-70"
+              )}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={setting.enabled}
+                  onChange={() => handleToggle(setting.id)}
+                  className="w-5 h-5 accent-[#F4B942]"
+                  aria-label={`Use ${provider.name}`}
+                />
+                <div className="flex-1">
+                  <p className="font-medium text-[#1A1A2E]">{provider.name}</p>
+                  <p className="text-xs text-[#1A1A2E]/60">{provider.description}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    onClick={() => handleMove(index, -1)}
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    className="h-8 w-8"
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => handleMove(index, 1)}
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === settings.providers.length - 1}
+                    className="h-8 w-8"
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {setting.id === 'merriam-webster' && setting.enabled && (
+                <input
+                  type="text"
+                  value={settings.merriamWebsterApiKey}
+                  onChange={(e) => updateSettings({ merriamWebsterApiKey: e.target.value })}
+                  placeholder="Merriam-Webster API key"
+                  className="w-full p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white text-sm"
+                />
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex items-center justify-between text-sm text-[#1A1A2E]/60 pt-2">
+          <span>Saved online lookups: {cacheStats.totalWords} ({cacheStats.cacheSize})</span>
+          <Button onClick={handleClearCache} variant="ghost" size="sm" disabled={cacheStats.totalWords === 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {/* My Definitions */}
+      <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-3">
+        <h3 className="font-semibold text-[#1A1A2E] flex items-center gap-2">
+          <PenLine className="w-4 h-4 text-[#D4941C]" />
+          My Definitions
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={overrideWord}
+            onChange={(e) => setOverrideWord(e.target.value)}
+            placeholder="Word"
+            className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+          />
+          <input
+            type="text"
+            value={overrideDraft.partOfSpeech}
+            onChange={(e) => setOverrideDraft({ ...overrideDraft, partOfSpeech: e.target.value })}
+            placeholder="Part of speech (optional)"
+            className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+          />
+        </div>
+        <textarea
+          value={overrideDraft.definition}
+          onChange={(e) => setOverrideDraft({ ...overrideDraft, definition: e.target.value })}
+          placeholder="Definition"
+          rows={2}
+          className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+        />
+        <input
+          type="text"
+          value={overrideDraft.example}
+          onChange={(e) => setOverrideDraft({ ...overrideDraft, example: e.target.value })}
+          placeholder="Example sentence (optional)"
+          className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+        />
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSaveOverride}
+            disabled={!overrideWord.trim() || !overrideDraft.definition.trim()}
+            className="gap-2"
+          >
+            <Save className="w-4 h-4" />
+            Save Definition
+          </Button>
+          {(overrideWord || overrideDraft.definition) && (
+            <Button
+              onClick={() => { setOverrideWord(''); setOverrideDraft(EMPTY_OVERRIDE); }}
+              variant="ghost"
+              className="gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {overrideWords.length > 0 && (
+          <div className="space-y-1 pt-2">
+            {overrideWords.map(word => (
+              <div key={word} className="flex items-start gap-2 p-2 bg-white rounded-lg">
+                <div className="flex-1 text-sm">
+                  <span className="font-medium text-[#1A1A2E]">{word}</span>
+                  {overrides[word].partOfSpeech && (
+                    <span className="ml-1 italic text-[#1A1A2E]/60">{overrides[word].partOfSpeech}</span>
+                  )}
+                  <p className="text-[#1A1A2E]/70">{overrides[word].definition}</p>
+                </div>
+                <Button onClick={() => handleEditOverride(word)} variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit">
+                  <Edit2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => handleDeleteOverride(word)}
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-500 hover:text-red-700 hover:bg-red-50"
+                  aria-label="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, ArrowRight } from 'lucide-react';
+import { Button } from './ui/button';
+import { SpellingWord, getDifficultyLabel } from '../data/words';
+import { findDifficultyChanges } from '../data/difficultyEstimate';
+
+interface DifficultyReportProps {
+  words: SpellingWord[];
+  onApply: (difficulty: 1 | 2 | 3, ids: string[]) => void; // called once per new level
+  onClose: () => void;
+}
+
+// Estimate every word's difficulty and let the user choose which changes to keep
+export function DifficultyReport({ words, onApply, onClose }: DifficultyReportProps) {
+  // Estimated once, so applying changes doesn't reshuffle the report
+  const [changes] = useState(() => findDifficultyChanges(words));
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(changes.map(c => c.word.id)));
+
+  const counts = useMemo(() => {
+    const byLevel = { 1: 0, 2: 0, 3: 0 };
+    changes.forEach(c => { byLevel[c.estimate.difficulty]++; });
+    return byLevel;
+  }, [changes]);
+
+  const handleToggle = (id: string) => {
+    setAccepted(prev => {
+      const updated = new Set(prev);
+      if (updated.has(id)) {
+        updated.delete(id);
+      } else {
+        updated.add(id);
+      }
+      return updated;
+    });
+  };
+
+  const handleApply = () => {
+    ([1, 2, 3] as const).forEach(level => {
+      const ids = changes
+        .filter(c => c.estimate.difficulty === level && accepted.has(c.word.id))
+        .map(c => c.word.id);
+      if (ids.length > 0) onApply(level, ids);
+    });
+    onClose();
+  };
+
+  return (
+    <div className="bg-[#FEF9EF] rounded-xl p-4 mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-[#1A1A2E]">Re-estimate Difficulty</h3>
+        <Button onClick={onClose} variant="ghost" size="sm">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Every word already has the difficulty we'd estimate for it.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-[#1A1A2E]/70">
+            {changes.length} of {words.length} words would change
+            ({counts[1]} to Easy, {counts[2]} to Medium, {counts[3]} to Hard).
+            Untick any you want to keep as they are.
+          </p>
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {changes.map(({ word, estimate }) => (
+              <label
+                key={word.id}
+                className="flex items-start gap-3 p-2 bg-white rounded-lg border border-gray-200 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={accepted.has(word.id)}
+                  onChange={() => handleToggle(word.id)}
+                  className="w-5 h-5 accent-[#F4B942] shrink-0"
+                />
+                <span className="flex-1">
+                  <span className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-[#1A1A2E]">{word.word}</span>
+                    <span className="text-gray-500">{getDifficultyLabel(word.difficulty)}</span>
+                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                    <span className="font-medium text-[#D4941C]">{getDifficultyLabel(estimate.difficulty)}</span>
+                  </span>
+                  {estimate.reasons.length > 0 && (
+                    <span className="block text-xs text-gray-500">{estimate.reasons.join(', ')}</span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <Button onClick={handleApply} disabled={accepted.size === 0} className="gap-2">
+              <Check className="w-4 h-4" />
+              Apply {accepted.size} Change{accepted.size === 1 ? '' : 's'}
+            </Button>
+            <Button onClick={onClose} variant="outline">
+              Cancel
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from './ui/button';
+import { useTextToSpeech } from '../hooks/useTextToSpeech';
+import { useDictionary } from '../hooks/useDictionary';
+import { useRecordedAudio } from '../hooks/useRecordedAudio';
+import { useSenseSelection } from '../hooks/useSenseSelection';
+import { SpellingWord, getDifficultyLabel, getDifficultyColor } from '../data/words';
+import {
+  BeeState,
+  createBee,
+  recordTurn,
+  getCurrentRound,
+  getCurrentSpeller,
+} from '../data/eliminationBee';
+import { BeeBracket } from './BeeBracket';
+import { SensePicker } from './SensePicker';
+import { Home, Volume2, BookOpen, MessageSquareQuote, Loader2, Eye, EyeOff, Check, X, Crown, ListTree } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface EliminationBeeProps {
+  spellers: string[];
+  words: SpellingWord[];
+  speechRate: number;
+  speechVoice: string;
+  preferRecordedAudio?: boolean;
+  onFinish: (bee: BeeState) => void;
+  onExit: () => void;
+}
+
+export function EliminationBee({
+  spellers,
+  words,
+  speechRate,
+  speechVoice,
+  preferRecordedAudio = false,
+  onFinish,
+  onExit,
+}: EliminationBeeProps) {
+  const [bee, setBee] = useState<BeeState>(() => createBee(spellers, words.length));
+  const [showWord, setShowWord] = useState(false);
+  const [showBracket, setShowBracket] = useState(false);
+
+  const round = getCurrentRound(bee);
+  const speller = getCurrentSpeller(bee);
+  const currentWord = words[Math.min(bee.wordsUsed, words.length - 1)];
+
+  const { wordData, isLoading: isLoadingDictionary } = useDictionary(currentWord.word);
+  const senses = useSenseSelection(wordData);
+  const { speak, speakWord, isSpeaking: isSpeakingTTS, isSupported: isTTSSupported } = useTextToSpeech(speechRate, speechVoice);
+  const { recordingUrl, playRecording, isPlayingRecording } = useRecordedAudio(currentWord.word, preferRecordedAudio);
+  const isSpeaking = isSpeakingTTS || isPlayingRecording;
+
+  // Hand the finished bee back to the app
+  useEffect(() => {
+    if (bee.finished) {
+      window.speechSynthesis.cancel();
+      onFinish(bee);
+    }
+  }, [bee, onFinish]);
+
+  // Use the recorded pronunciation when preferred and available, otherwise TTS
+  const handleHearWord = useCallback(() => {
+    const sayWord = async () => {
+      if (recordingUrl) {
+        try {
+          window.speechSynthesis?.cancel();
+          await playRecording();
+          return;
+        } catch (e) {
+          // Fall back to speech synthesis
+        }
+      }
+      await speakWord(currentWord.word);
+    };
+    sayWord().catch(() => {
+      // Silently handle errors (interrupted errors are expected)
+    });
+  }, [currentWord.word, recordingUrl, playRecording, speakWord]);
+
+  // Pronounce each new word, addressed to the speller (once per turn)
+  const announcedTurnRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (bee.finished || speller === null || !isTTSSupported) return;
+    if (announcedTurnRef.current === bee.wordsUsed) return;
+    const timer = setTimeout(() => {
+      announcedTurnRef.current = bee.wordsUsed;
+      speak(`${bee.spellers[speller]}, your word is: ${currentWord.word}`).catch(() => {
+        // Silently handle errors (interrupted errors are expected)
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [bee.finished, bee.wordsUsed, bee.spellers, speller, isTTSSupported, currentWord.word, speak]);
+
+  // The pronouncer reads whichever sense is selected
+  const speakDefinition = useCallback((definition: string) => {
+    const partOfSpeech = senses.meaning?.partOfSpeech;
+    speak(partOfSpeech ? `${partOfSpeech}. ${definition}` : definition);
+  }, [senses.meaning, speak]);
+
+  const handleHearDefinition = useCallback(() => {
+    if (senses.sense) {
+      speakDefinition(senses.sense.definition);
+    }
+  }, [senses.sense, speakDefinition]);
+
+  const handleAnotherDefinition = useCallback(() => {
+    const sense = senses.nextSense();
+    if (sense) {
+      speakDefinition(sense.definition);
+    }
+  }, [senses, speakDefinition]);
+
+  const handleHearExample = useCallback(() => {
+    if (senses.example) {
+      speak(senses.example);
+    }
+  }, [senses.example, speak]);
+
+  const handleAnotherExample = useCallback(() => {
+    const example = senses.nextExample();
+    if (example) {
+      speak(example);
+    }
+  }, [senses, speak]);
+
+  const handleHearPartOfSpeech = useCallback(() => {
+    if (senses.meaning?.partOfSpeech) {
+      speak(senses.meaning.partOfSpeech);
+    }
+  }, [senses.meaning, speak]);
+
+  const handleJudge = useCallback((correct: boolean) => {
+    window.speechSynthesis.cancel();
+    setBee(prev => recordTurn(prev, currentWord, correct));
+    setShowWord(false);
+  }, [currentWord]);
+
+  if (speller === null) return null;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+          <Button onClick={onExit} variant="ghost" size="sm" className="gap-2">
+            <Home className="w-4 h-4" />
+            Exit
+          </Button>
+          <span className="font-semibold text-[#1A1A2E]">
+            {round.isChampionship ? 'Championship Word' : `Round ${round.number}`}
+          </span>
+          <Button onClick={() => setShowBracket(!showBracket)} variant="outline" size="sm" className="gap-2">
+            <ListTree className="w-4 h-4" />
+            {showBracket ? 'Hide Rounds' : 'Rounds'}
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center p-4 md:p-8">
+        <div className="w-full max-w-2xl space-y-6">
+          {/* Spellers still in */}
+          <div className="flex flex-wrap justify-center gap-2">
+            {bee.spellers.map((name, i) => {
+              const isIn = bee.active.includes(i);
+              return (
+                <span
+                  key={name}
+                  className={cn(
+                    "px-3 py-1 rounded-full text-sm font-medium border-2",
+                    i === speller && "border-[#D4941C] bg-[#F4B942] text-[#1A1A2E]",
+                    i !== speller && isIn && "border-[#F4B942]/40 bg-white text-[#1A1A2E]",
+                    !isIn && "border-gray-200 bg-gray-100 text-gray-400 line-through"
+                  )}
+                >
+                  {name}
+                </span>
+              );
+            })}
+          </div>
+
+          {/* Turn Card */}
+          <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-6 md:p-8 shadow-xl border border-[#F4B942]/20 text-center space-y-6">
+            <div>
+              {round.isChampionship && (
+                <Crown className="w-10 h-10 mx-auto text-[#D4941C] mb-2" />
+              )}
+              <h2 className="text-3xl font-bold text-[#1A1A2E]">{bee.spellers[speller]}</h2>
+              <p className="text-[#1A1A2E]/60 text-sm">
+                {round.isChampionship
+                  ? 'Spell this word to win the bee!'
+                  : "It's your turn to spell"}
+              </p>
+            </div>
+
+            <Button
+              onClick={handleHearWord}
+              disabled={isSpeaking}
+              size="xl"
+              className={cn(
+                "w-full max-w-xs mx-auto gap-3 text-xl h-20",
+                isSpeaking && "animate-pulse"
+              )}
+            >
+              <Volume2 className="w-8 h-8" />
+              {isSpeaking ? 'Speaking...' : 'Hear Word'}
+            </Button>
+
+            <div className="flex justify-center gap-3">
+              <Button
+                onClick={handleHearDefinition}
+                disabled={isSpeaking || !senses.sense || isLoadingDictionary}
+                variant="outline"
+                size="lg"
+                className="gap-2"
+              >
+                {isLoadingDictionary ? <Loader2 className="w-5 h-5 animate-spin" /> : <BookOpen className="w-5 h-5" />}
+                Definition
+              </Button>
+              <Button
+                onClick={handleHearExample}
+                disabled={isSpeaking || !senses.example || isLoadingDictionary}
+                variant="outline"
+                size="lg"
+                className="gap-2"
+              >
+                {isLoadingDictionary ? <Loader2 className="w-5 h-5 animate-spin" /> : <MessageSquareQuote className="w-5 h-5" />}
+                Example
+              </Button>
+            </div>
+
+            <SensePicker
+              meanings={senses.meanings}
+              meaningIndex={senses.meaningIndex}
+              senseIndex={senses.senseIndex}
+              exampleCount={senses.exampleCount}
+              onSelectMeaning={senses.selectMeaning}
+              onHearPartOfSpeech={handleHearPartOfSpeech}
+              onAnotherDefinition={handleAnotherDefinition}
+              onAnotherExample={handleAnotherExample}
+              disabled={isSpeaking || isLoadingDictionary}
+            />
+
+            {/* Pronouncer's view of the word */}
+            <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-2">
+              <button
+                onClick={() => setShowWord(!showWord)}
+                className="text-sm text-[#1A1A2E]/70 flex items-center justify-center gap-2 w-full"
+              >
+                {showWord ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {showWord ? 'Hide word' : 'Show word (pronouncer only)'}
+              </button>
+              {showWord && (
+                <div>
+                  <p className="letter-slot text-3xl font-bold text-[#1A1A2E] tracking-wider">{currentWord.word}</p>
+                  {currentWord.alternateSpelling && (
+                    <p className="text-sm text-purple-600">also accepted: {currentWord.alternateSpelling}</p>
+                  )}
+                  <p className={`text-xs font-semibold ${getDifficultyColor(currentWord.difficulty)}`}>
+                    {getDifficultyLabel(currentWord.difficulty)}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Judge Buttons */}
+            <div className="flex justify-center gap-4">
+              <Button
+                onClick={() => handleJudge(false)}
+                size="xl"
+                variant="outline"
+                className="flex-1 max-w-[180px] h-16 gap-2 text-lg border-red-300 text-red-600 hover:bg-red-50 hover:border-red-400"
+              >
+                <X className="w-6 h-6" />
+                Missed
+              </Button>
+              <Button
+                onClick={() => handleJudge(true)}
+                size="xl"
+                className="flex-1 max-w-[180px] h-16 gap-2 text-lg bg-green-500 hover:bg-green-600 text-white"
+              >
+                <Check className="w-6 h-6" />
+                Correct
+              </Button>
+            </div>
+
+            <p className="text-xs text-[#1A1A2E]/50">
+              {bee.wordCount - bee.wordsUsed} words left in the list
+            </p>
+          </div>
+
+          {showBracket && <BeeBracket bee={bee} />}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Lightbulb } from 'lucide-react';
+import { SpellingWord } from '../data/words';
+import { summarizeErrors, ERROR_TYPE_LABELS, ERROR_TYPE_TIPS } from '../data/errorAnalysis';
+
+interface ErrorPatternsProps {
+  results: { word: SpellingWord; correct: boolean | null; entered?: string }[];
+  title?: string;
+}
+
+// Bar chart of the kinds of mistakes made in typed answers.
+// Renders nothing when there are no typed wrong answers to analyse.
+export function ErrorPatterns({ results, title = 'Mistake Patterns' }: ErrorPatternsProps) {
+  const summary = summarizeErrors(results);
+  if (summary.length === 0) return null;
+
+  const maxCount = summary[0].count;
+  const top = summary[0];
+
+  return (
+    <div className="bg-[#FEF9EF] rounded-2xl p-4 space-y-3 text-left">
+      <h3 className="text-sm font-semibold text-[#1A1A2E]">{title}</h3>
+
+      <div className="space-y-2">
+        {summary.map(pattern => (
+          <div key={pattern.type} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-[#1A1A2E]">{ERROR_TYPE_LABELS[pattern.type]}</span>
+              <span className="text-[#1A1A2E]/60">{pattern.count}</span>
+            </div>
+            <div className="h-2 w-full rounded-full bg-[#1A1A2E]/10 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-[#F4B942] to-[#D4941C]"
+                style={{ width: `${(pattern.count / maxCount) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-[#1A1A2E]/60">
+              {pattern.examples.map((example, i) => (
+                <span key={i}>
+                  {i > 0 && ', '}
+                  <span className="line-through text-red-600">{example.entered}</span> → {example.word}
+                </span>
+              ))}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <p className="flex items-start gap-2 text-sm text-[#1A1A2E]/80 bg-white/70 rounded-xl p-3">
+        <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0 text-[#D4941C]" />
+        {ERROR_TYPE_TIPS[top.type]}
+      </p>
+    </div>
+  );
+}
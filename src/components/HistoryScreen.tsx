@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { ArrowLeft, History, ChevronRight, Check, X, Minus, RotateCcw, Trash2, Flag, Square } from 'lucide-react';
+import { QuizSession, getSessionScore } from '../hooks/useHistory';
+import { SpellingWord, getDifficultyLabel } from '../data/words';
+import { ErrorPatterns } from './ErrorPatterns';
+import { cn } from '../lib/utils';
+
+interface HistoryScreenProps {
+  sessions: QuizSession[];
+  onRerun: (words: SpellingWord[], listName: string) => void;
+  onDeleteSession: (id: string) => void;
+  onClearHistory: () => void;
+  onBack: () => void;
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+export function HistoryScreen({ sessions, onRerun, onDeleteSession, onClearHistory, onBack }: HistoryScreenProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = sessions.find(s => s.id === selectedId) || null;
+
+  const handleClearHistory = () => {
+    if (window.confirm('Are you sure you want to delete all quiz history?')) {
+      onClearHistory();
+    }
+  };
+
+  const handleDeleteSession = (id: string) => {
+    if (window.confirm('Delete this session from history?')) {
+      onDeleteSession(id);
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button
+            onClick={selected ? () => setSelectedId(null) : onBack}
+            variant="ghost"
+            size="sm"
+            className="gap-2 text-[#1A1A2E]"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {selected ? 'All Sessions' : 'Home'}
+          </Button>
+          <h1 className="text-xl font-bold text-[#1A1A2E]">
+            {selected ? selected.listName : 'Quiz History'}
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-8 space-y-6">
+        {!selected ? (
+          /* Session List */
+          <>
+            {sessions.length === 0 ? (
+              <div className="text-center p-6 bg-white/50 rounded-2xl border border-dashed border-[#F4B942]/40">
+                <History className="w-8 h-8 mx-auto text-[#D4941C] mb-2" />
+                <p className="text-[#1A1A2E]/60">
+                  No quizzes yet. Finished quizzes will show up here!
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <ErrorPatterns
+                  results={sessions.flatMap(s => s.results)}
+                  title="Mistake Patterns Across All Sessions"
+                />
+                {sessions.map((session) => {
+                  const { score, answered } = getSessionScore(session);
+                  const percentage = answered > 0 ? Math.round((score / answered) * 100) : 0;
+                  return (
+                    <button
+                      key={session.id}
+                      onClick={() => setSelectedId(session.id)}
+                      className={cn(
+                        "w-full p-4 rounded-xl border-2 border-[#F4B942]/30 bg-white/80",
+                        "flex items-center gap-4 text-left",
+                        "hover:border-[#F4B942] hover:shadow-md transition-all duration-200"
+                      )}
+                    >
+                      <div className="w-12 h-12 rounded-full bg-gradient-to-br from-[#F4B942] to-[#D4941C] flex items-center justify-center font-bold text-[#1A1A2E] text-sm">
+                        {percentage}%
+                      </div>
+                      <div className="flex-1">
+                        <span className="font-semibold text-[#1A1A2E]">{session.listName}</span>
+                        <p className="text-sm text-[#1A1A2E]/60">
+                          {formatDateTime(session.startedAt)} · {score}/{answered} correct
+                          {session.endedBy === 'ended' && ` · ended early`}
+                        </p>
+                      </div>
+                      <ChevronRight className="w-5 h-5 text-[#1A1A2E]/40" />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {sessions.length > 0 && (
+              <Button
+                onClick={handleClearHistory}
+                variant="outline"
+                className="w-full gap-2 border-red-300 text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear History
+              </Button>
+            )}
+          </>
+        ) : (
+          /* Session Detail */
+          <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 space-y-4">
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span className="bg-gray-100 px-3 py-1 rounded-full">
+                {formatDateTime(selected.startedAt)}
+              </span>
+              <span className="bg-gray-100 px-3 py-1 rounded-full">
+                ⏱ {formatDuration(selected.endedAt - selected.startedAt)}
+              </span>
+              <span className={cn(
+                'px-3 py-1 rounded-full flex items-center gap-1',
+                selected.endedBy === 'finished' ? 'bg-green-100 text-green-700' : 'bg-orange-100 text-orange-700'
+              )}>
+                {selected.endedBy === 'finished' ? (
+                  <><Flag className="w-3 h-3" /> Finished</>
+                ) : (
+                  <><Square className="w-3 h-3" /> Ended early</>
+                )}
+              </span>
+              <span className="bg-[#F4B942]/20 px-3 py-1 rounded-full font-semibold">
+                {getSessionScore(selected).score}/{getSessionScore(selected).answered} correct
+              </span>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto space-y-1">
+              {selected.results.map((result, i) => (
+                <div
+                  key={i}
+                  className={cn(
+                    'flex items-center justify-between p-2 rounded-lg',
+                    result.correct === true && 'bg-green-50',
+                    result.correct === false && 'bg-red-50',
+                    result.correct === null && 'bg-gray-50',
+                  )}
+                >
+                  <span className="flex items-center gap-2 font-medium text-[#1A1A2E]">
+                    {result.correct === true && <Check className="w-4 h-4 text-green-600" />}
+                    {result.correct === false && <X className="w-4 h-4 text-red-600" />}
+                    {result.correct === null && <Minus className="w-4 h-4 text-gray-500" />}
+                    {result.word.word}
+                    {result.correct === false && result.entered && (
+                      <span className="text-sm font-normal text-red-600">
+                        (answered: <span className="line-through">{result.entered}</span>)
+                      </span>
+                    )}
+                  </span>
+                  <span className={cn(
+                    'text-xs px-2 py-0.5 rounded-full',
+                    result.word.difficulty === 1 && 'bg-green-100 text-green-700',
+                    result.word.difficulty === 2 && 'bg-yellow-100 text-yellow-700',
+                    result.word.difficulty === 3 && 'bg-red-100 text-red-700',
+                  )}>
+                    {getDifficultyLabel(result.word.difficulty)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <ErrorPatterns results={selected.results} />
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2">
+              <Button
+                onClick={() => onRerun(selected.results.map(r => r.word), selected.listName)}
+                className="flex-1 gap-2"
+              >
+                <RotateCcw className="w-5 h-5" />
+                Practice These Words Again
+              </Button>
+              <Button
+                onClick={() => handleDeleteSession(selected.id)}
+                variant="ghost"
+                className="gap-2 text-red-500 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,19 +1,52 @@
 import React from 'react';
 import { Button } from './ui/button';
-import { Play, Settings, Trophy } from 'lucide-react';
+import { Play, Settings, Trophy, History, Users, Printer } from 'lucide-react';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { Profile } from '../hooks/useProfiles';
 
 interface HomeScreenProps {
   onStartQuiz: () => void;
   onOpenSettings: () => void;
+  onOpenHistory: () => void;
+  onStartBee: () => void;
+  onOpenWorksheet: () => void;
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (id: string) => void;
+  onAddProfile: (name: string) => void;
+  onRenameProfile: (id: string, name: string) => void;
+  onDeleteProfile: (id: string) => void;
   highScore: { score: number; total: number } | null;
   wordCount: number;
 }
 
-export function HomeScreen({ onStartQuiz, onOpenSettings, highScore, wordCount }: HomeScreenProps) {
+export function HomeScreen({
+  onStartQuiz,
+  onOpenSettings,
+  onOpenHistory,
+  onStartBee,
+  onOpenWorksheet,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onAddProfile,
+  onRenameProfile,
+  onDeleteProfile,
+  highScore,
+  wordCount,
+}: HomeScreenProps) {
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 md:p-8 bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
-      {/* Settings Button */}
-      <div className="absolute top-4 right-4">
+      {/* Worksheets, History & Settings Buttons */}
+      <div className="absolute top-4 right-4 flex gap-2">
+        <Button onClick={onOpenWorksheet} variant="outline" size="sm" className="gap-2">
+          <Printer className="w-4 h-4" />
+          Print
+        </Button>
+        <Button onClick={onOpenHistory} variant="outline" size="sm" className="gap-2">
+          <History className="w-4 h-4" />
+          History
+        </Button>
         <Button onClick={onOpenSettings} variant="outline" size="sm" className="gap-2">
           <Settings className="w-4 h-4" />
           Settings
@@ -47,6 +80,16 @@ export function HomeScreen({ onStartQuiz, onOpenSettings, highScore, wordCount }
           </p>
         </div>
 
+        {/* Profiles */}
+        <ProfileSwitcher
+          profiles={profiles}
+          activeProfileId={activeProfileId}
+          onSwitch={onSwitchProfile}
+          onAdd={onAddProfile}
+          onRename={onRenameProfile}
+          onDelete={onDeleteProfile}
+        />
+
         {/* High Score Card */}
         {highScore && (
           <div className="bg-gradient-to-br from-[#FFD93D]/30 to-[#F4B942]/30 rounded-2xl p-4 border border-[#F4B942]/40">
@@ -69,7 +112,7 @@ export function HomeScreen({ onStartQuiz, onOpenSettings, highScore, wordCount }
             </div>
             <div className="flex items-start gap-3">
               <span className="text-xl">✏️</span>
-              <p>Write down the spelling on paper</p>
+              <p>Write down the spelling on paper, or type it in</p>
             </div>
             <div className="flex items-start gap-3">
               <span className="text-xl">👁️</span>
@@ -92,6 +135,16 @@ export function HomeScreen({ onStartQuiz, onOpenSettings, highScore, wordCount }
           Start Practice
         </Button>
 
+        <Button
+          onClick={onStartBee}
+          variant="outline"
+          size="lg"
+          className="w-full gap-3"
+        >
+          <Users className="w-6 h-6" />
+          Spelling Bee Tournament
+        </Button>
+
         {/* Tip */}
         <p className="text-center text-sm text-[#1A1A2E]/50">
           💡 Tip: You can also hear definitions and example sentences!
@@ -10,10 +10,13 @@ interface LetterSlotsProps {
 
 export function LetterSlots({ targetWord, enteredLetters, showResult, isCorrect }: LetterSlotsProps) {
   const targetLetters = targetWord.toUpperCase().split('');
+  // Extra slots appear when more letters are typed than the target has
+  const slotCount = Math.max(targetLetters.length, enteredLetters.length);
   
   return (
     <div className="flex flex-wrap justify-center gap-2 md:gap-3 p-4">
-      {targetLetters.map((targetLetter, index) => {
+      {Array.from({ length: slotCount }).map((_, index) => {
+        const targetLetter = targetLetters[index] || '';
         const enteredLetter = enteredLetters[index] || '';
         const hasLetter = enteredLetter !== '';
         const isLetterCorrect = enteredLetter.toUpperCase() === targetLetter;
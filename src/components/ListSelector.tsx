@@ -1,25 +1,58 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Button } from './ui/button';
-import { CustomWordList } from '../hooks/useSettings';
-import { SpellingWord } from '../data/words';
-import { ArrowLeft, BookOpen, Sparkles, Leaf, Trees, Crown, List } from 'lucide-react';
+import { CustomWordList, QuizMode } from '../hooks/useSettings';
+import { SpellingWord, getDifficultyLabel } from '../data/words';
+import { resolveListWords } from '../data/customLists';
+import { ScheduleMap, getDueWords, getDueForecast } from '../data/scheduler';
+import { ArrowLeft, BookOpen, Sparkles, Leaf, Trees, Crown, List, PenLine, Keyboard, CalendarClock, Link, Printer, Mic, AlertTriangle, TrendingUp } from 'lucide-react';
+import { getRouteUrl } from '../data/routes';
+import { HITS_TO_STEP_UP, MISSES_TO_STEP_DOWN } from '../data/staircase';
+import { getBrowserRecognizer } from '../services/speechRecognition';
+import { shareLink } from '../lib/share';
 import { cn } from '../lib/utils';
 
+// Copy a link that starts this list, e.g. for a teacher's bookmarks
+function copyListLink(name: string): void {
+  const url = getRouteUrl({ screen: 'quiz', list: { type: 'custom', name } });
+  shareLink(url, name, 'Link copied! Bookmark it to start this list.');
+}
+
 interface ListSelectorProps {
   words: SpellingWord[];
   customLists: CustomWordList[];
+  schedule: ScheduleMap;
+  quizMode: QuizMode;
+  onChangeQuizMode: (mode: QuizMode) => void;
   onSelectPreset: (difficulty: 1 | 2 | 3 | 'all') => void;
   onSelectCustomList: (listName: string) => void;
+  onSelectDue: () => void;
+  onSelectAdaptive: (startLevel: 1 | 2 | 3) => void;
+  adaptiveQuizLength: number;
+  onChangeAdaptiveQuizLength: (length: number) => void;
+  onPrintCustomList: (listName: string) => void;
   onBack: () => void;
 }
 
 export function ListSelector({
   words,
   customLists,
+  schedule,
+  quizMode,
+  onChangeQuizMode,
   onSelectPreset,
   onSelectCustomList,
+  onSelectDue,
+  onSelectAdaptive,
+  adaptiveQuizLength,
+  onChangeAdaptiveQuizLength,
+  onPrintCustomList,
   onBack,
 }: ListSelectorProps) {
+  const dueCount = useMemo(() => getDueWords(words, schedule).length, [words, schedule]);
+  const forecast = useMemo(() => getDueForecast(words, schedule), [words, schedule]);
+  const maxForecast = Math.max(1, ...forecast.map(d => d.count));
+  const hasSchedule = Object.keys(schedule).length > 0;
+
   // Count words by difficulty
   const allCount = words.length;
   const easyCount = words.filter(w => w.difficulty === 1).length;
@@ -65,6 +98,21 @@ export function ListSelector({
     },
   ];
 
+  const adaptiveLengths = Array.from(new Set([10, 20, 30, 50, adaptiveQuizLength])).sort((a, b) => a - b);
+
+  const canListen = getBrowserRecognizer() !== null;
+  const quizModes: { id: QuizMode; name: string; description: string; icon: typeof Mic; disabled?: boolean }[] = [
+    { id: 'paper' as const, name: 'Write on Paper', description: 'Reveal and mark yourself', icon: PenLine },
+    { id: 'typed' as const, name: 'Type It', description: 'Checked automatically', icon: Keyboard },
+    {
+      id: 'spoken' as const,
+      name: 'Say It Aloud',
+      description: canListen ? 'Spell out loud, like a real bee' : 'Not available in this browser',
+      icon: Mic,
+      disabled: !canListen,
+    },
+  ];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
       {/* Header */}
@@ -87,6 +135,91 @@ export function ListSelector({
           </h2>
         </div>
 
+        {/* Quiz Mode */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]/70 uppercase tracking-wider">
+            How Will You Answer?
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {quizModes.map((mode) => {
+              const Icon = mode.icon;
+              const isSelected = quizMode === mode.id;
+              return (
+                <button
+                  key={mode.id}
+                  onClick={() => onChangeQuizMode(mode.id)}
+                  disabled={mode.disabled}
+                  className={cn(
+                    "p-3 rounded-xl border-2 transition-all duration-200",
+                    "flex items-center gap-3 text-left",
+                    "disabled:opacity-50 disabled:cursor-not-allowed",
+                    isSelected
+                      ? "bg-[#F4B942]/20 border-[#F4B942]"
+                      : "bg-white/80 border-gray-200 hover:border-[#F4B942]/50"
+                  )}
+                >
+                  <Icon className="w-6 h-6 text-[#D4941C] shrink-0" />
+                  <div>
+                    <span className="font-semibold text-[#1A1A2E] block">{mode.name}</span>
+                    <span className="text-xs text-[#1A1A2E]/60">{mode.description}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Due Today */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]/70 uppercase tracking-wider flex items-center gap-2">
+            <CalendarClock className="w-4 h-4" />
+            Review Schedule
+          </h3>
+          <button
+            onClick={onSelectDue}
+            disabled={dueCount === 0}
+            className={cn(
+              "w-full p-4 rounded-2xl border-2 transition-all duration-200",
+              "flex items-center gap-4 text-left",
+              "bg-blue-50 border-blue-200 hover:border-[#F4B942] hover:shadow-lg",
+              "disabled:opacity-50 disabled:cursor-not-allowed"
+            )}
+          >
+            <div className="w-12 h-12 rounded-full flex items-center justify-center bg-gradient-to-br from-blue-400 to-blue-500 text-white">
+              <CalendarClock className="w-6 h-6" />
+            </div>
+            <div className="flex-1">
+              <span className="font-semibold text-[#1A1A2E]">Due Today</span>
+              <p className="text-sm text-[#1A1A2E]/60">
+                {hasSchedule
+                  ? `${dueCount} word${dueCount !== 1 ? 's' : ''} ready for review`
+                  : 'Finish a quiz to start your review schedule'}
+              </p>
+            </div>
+          </button>
+
+          {/* 7-day forecast */}
+          {hasSchedule && (
+            <div className="bg-white/80 rounded-xl border border-[#F4B942]/30 p-3">
+              <p className="text-xs font-medium text-[#1A1A2E]/70 mb-2">Coming up this week</p>
+              <div className="flex items-end gap-2 h-20">
+                {forecast.map((day, i) => (
+                  <div key={day.date} className="flex-1 flex flex-col items-center justify-end gap-1 h-full">
+                    <span className="text-xs text-[#1A1A2E]/70">{day.count}</span>
+                    <div
+                      className="w-full rounded-t bg-gradient-to-t from-[#D4941C] to-[#F4B942]"
+                      style={{ height: `${(day.count / maxForecast) * 100}%`, minHeight: day.count > 0 ? 4 : 0 }}
+                    />
+                    <span className="text-xs text-[#1A1A2E]/50">
+                      {i === 0 ? 'Today' : new Date(day.date).toLocaleDateString(undefined, { weekday: 'short' })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Preset Lists */}
         <div className="space-y-3">
           <h3 className="text-sm font-semibold text-[#1A1A2E]/70 uppercase tracking-wider">
@@ -124,6 +257,47 @@ export function ListSelector({
           </div>
         </div>
 
+        {/* Adaptive */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-[#1A1A2E]/70 uppercase tracking-wider flex items-center gap-2">
+            <TrendingUp className="w-4 h-4" />
+            Adaptive Challenge
+          </h3>
+          <div className="p-4 rounded-2xl border-2 border-[#F4B942]/30 bg-white/80 space-y-3">
+            <p className="text-sm text-[#1A1A2E]/70">
+              Words get harder after {HITS_TO_STEP_UP} right in a row and easier
+              after {MISSES_TO_STEP_DOWN} misses, to find the level that suits you.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+              Up to
+              <select
+                value={adaptiveQuizLength}
+                onChange={(e) => onChangeAdaptiveQuizLength(parseInt(e.target.value))}
+                className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+              >
+                {adaptiveLengths.map(length => (
+                  <option key={length} value={length}>{length}</option>
+                ))}
+              </select>
+              words
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([1, 2, 3] as const).map((level) => (
+                <Button
+                  key={level}
+                  onClick={() => onSelectAdaptive(level)}
+                  disabled={allCount === 0}
+                  variant="outline"
+                  className="flex-col h-auto py-2"
+                >
+                  <span className="text-xs text-[#1A1A2E]/60">Start at</span>
+                  <span className="font-semibold">{getDifficultyLabel(level)}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
         {/* Custom Lists */}
         {customLists.length > 0 && (
           <div className="space-y-3">
@@ -133,27 +307,54 @@ export function ListSelector({
             </h3>
             <div className="space-y-2">
               {customLists.map((list) => {
-                const wordCount = list.wordIds.length;
+                const { words: listWords, missingIds } = resolveListWords(list, words);
+                const wordCount = listWords.length;
                 return (
-                  <button
-                    key={list.name}
-                    onClick={() => onSelectCustomList(list.name)}
-                    disabled={wordCount === 0}
-                    className={cn(
-                      "w-full p-4 rounded-xl border-2 border-[#F4B942]/30 bg-white/80",
-                      "flex items-center gap-4 text-left",
-                      "hover:border-[#F4B942] hover:shadow-md transition-all duration-200",
-                      "disabled:opacity-50 disabled:cursor-not-allowed"
-                    )}
-                  >
-                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-[#F4B942] to-[#D4941C] flex items-center justify-center">
-                      <List className="w-5 h-5 text-[#1A1A2E]" />
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-semibold text-[#1A1A2E]">{list.name}</span>
-                      <p className="text-sm text-[#1A1A2E]/60">{wordCount} words</p>
-                    </div>
-                  </button>
+                  <div key={list.name} className="flex items-center gap-2">
+                    <button
+                      onClick={() => onSelectCustomList(list.name)}
+                      disabled={wordCount === 0}
+                      className={cn(
+                        "flex-1 p-4 rounded-xl border-2 border-[#F4B942]/30 bg-white/80",
+                        "flex items-center gap-4 text-left",
+                        "hover:border-[#F4B942] hover:shadow-md transition-all duration-200",
+                        "disabled:opacity-50 disabled:cursor-not-allowed"
+                      )}
+                    >
+                      <div className="w-10 h-10 rounded-full bg-gradient-to-br from-[#F4B942] to-[#D4941C] flex items-center justify-center">
+                        <List className="w-5 h-5 text-[#1A1A2E]" />
+                      </div>
+                      <div className="flex-1">
+                        <span className="font-semibold text-[#1A1A2E]">{list.name}</span>
+                        <p className="text-sm text-[#1A1A2E]/60">{wordCount} words</p>
+                        {missingIds.length > 0 && (
+                          <p className="text-xs text-orange-600 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            {missingIds.length} missing from the word bank
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                    <Button
+                      onClick={() => copyListLink(list.name)}
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Copy link to ${list.name}`}
+                      title="Copy link"
+                    >
+                      <Link className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => onPrintCustomList(list.name)}
+                      disabled={wordCount === 0}
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Print a worksheet for ${list.name}`}
+                      title="Print worksheet"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </Button>
+                  </div>
                 );
               })}
             </div>
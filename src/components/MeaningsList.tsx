@@ -0,0 +1,61 @@
+import React from 'react';
+import { WordMeaning } from '../services/dictionaryProviders';
+import { cn } from '../lib/utils';
+
+interface MeaningsListProps {
+  meanings: WordMeaning[];
+  meaningIndex: number; // highlighted sense
+  senseIndex: number;
+}
+
+// Meaning-level words plus those attached to individual senses
+function collectWords(meaning: WordMeaning, key: 'synonyms' | 'antonyms'): string[] {
+  return Array.from(new Set([...meaning[key], ...meaning.senses.flatMap(s => s[key])]));
+}
+
+// Every definition of a word grouped by part of speech, shown after the reveal
+export function MeaningsList({ meanings, meaningIndex, senseIndex }: MeaningsListProps) {
+  if (meanings.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-left space-y-3 max-h-64 overflow-y-auto">
+      {meanings.map((meaning, m) => {
+        const synonyms = collectWords(meaning, 'synonyms');
+        const antonyms = collectWords(meaning, 'antonyms');
+        return (
+          <div key={`${meaning.partOfSpeech}-${m}`} className="space-y-1">
+            <p className="text-amber-900 text-sm font-bold capitalize">
+              {meaning.partOfSpeech || 'Definition'}
+            </p>
+            <ol className="list-decimal list-inside space-y-1">
+              {meaning.senses.map((sense, s) => (
+                <li
+                  key={s}
+                  className={cn(
+                    "text-amber-900 text-sm rounded px-1",
+                    m === meaningIndex && s === senseIndex && "bg-amber-100"
+                  )}
+                >
+                  {sense.definition}
+                  {sense.example && (
+                    <span className="block text-amber-700 italic ml-4">"{sense.example}"</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+            {synonyms.length > 0 && (
+              <p className="text-xs text-amber-800">
+                <strong>Similar:</strong> {synonyms.slice(0, 6).join(', ')}
+              </p>
+            )}
+            {antonyms.length > 0 && (
+              <p className="text-xs text-amber-800">
+                <strong>Opposite:</strong> {antonyms.slice(0, 6).join(', ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Plus, Edit2, Trash2, Check, X, UserCircle } from 'lucide-react';
+import { Profile } from '../hooks/useProfiles';
+import { cn } from '../lib/utils';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function ProfileSwitcher({ profiles, activeProfileId, onSwitch, onAdd, onRename, onDelete }: ProfileSwitcherProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const nameExists = (name: string, exceptId?: string) =>
+    profiles.some(p => p.id !== exceptId && p.name.toLowerCase() === name.toLowerCase());
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (nameExists(name)) {
+      alert('A profile with this name already exists!');
+      return;
+    }
+    onAdd(name);
+    setNewName('');
+  };
+
+  const handleSaveRename = () => {
+    const name = editingName.trim();
+    if (!editingId || !name) return;
+    if (nameExists(name, editingId)) {
+      alert('A profile with this name already exists!');
+      return;
+    }
+    onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (window.confirm(`Delete "${profile.name}" and all of their lists, scores and progress?`)) {
+      onDelete(profile.id);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-4 shadow-lg border border-[#F4B942]/20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-[#1A1A2E]/70 uppercase tracking-wider flex items-center gap-2">
+          <UserCircle className="w-4 h-4" />
+          Who's practicing?
+        </h2>
+        <button
+          onClick={() => setIsManaging(!isManaging)}
+          className="text-xs text-[#D4941C] hover:underline"
+        >
+          {isManaging ? 'Done' : 'Manage'}
+        </button>
+      </div>
+
+      {!isManaging ? (
+        <div className="flex flex-wrap gap-2">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => onSwitch(profile.id)}
+              className={cn(
+                "px-4 py-2 rounded-full border-2 font-medium transition-colors",
+                profile.id === activeProfileId
+                  ? "bg-[#F4B942] border-[#D4941C] text-[#1A1A2E]"
+                  : "bg-white border-gray-200 text-[#1A1A2E]/70 hover:border-[#F4B942]"
+              )}
+            >
+              {profile.name}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-2">
+              {editingId === profile.id ? (
+                <>
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveRename()}
+                    className="flex-1 p-2 border-2 border-gray-200 rounded-lg focus:border-[#F4B942] focus:outline-none bg-white"
+                  />
+                  <Button onClick={handleSaveRename} size="sm">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button onClick={() => setEditingId(null)} variant="outline" size="sm">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 font-medium text-[#1A1A2E]">{profile.name}</span>
+                  <Button
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setEditingName(profile.name);
+                    }}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => handleDelete(profile)}
+                    disabled={profiles.length <= 1}
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <input
+              type="text"
+              placeholder="New profile name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              className="flex-1 p-2 border-2 border-gray-200 rounded-lg focus:border-[#F4B942] focus:outline-none bg-white"
+            />
+            <Button onClick={handleAdd} size="sm" className="gap-1">
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { ArrowLeft, Play, Settings2, AlertTriangle } from 'lucide-react';
+import { SpellingWord } from '../data/words';
+import {
+  QuizSetupOptions,
+  WordOrder,
+  DifficultyMix,
+  WORD_ORDER_LABELS,
+  getQuizSize,
+} from '../data/quizSetup';
+
+interface QuizSetupProps {
+  listName: string;
+  words: SpellingWord[]; // the whole list, in list order
+  allowMix: boolean; // difficulty mixes only make sense for "All Words"
+  options: QuizSetupOptions;
+  onChangeOptions: (options: QuizSetupOptions) => void;
+  onStart: () => void;
+  onBack: () => void;
+}
+
+const WORD_COUNTS = [10, 20, 30, 50];
+const DEFAULT_MIX: DifficultyMix = [30, 40, 30];
+const MIX_LABELS = ['Easy', 'Medium', 'Hard'];
+
+// Choose how long the quiz is and which words it asks, before starting
+export function QuizSetup({ listName, words, allowMix, options, onChangeOptions, onStart, onBack }: QuizSetupProps) {
+  const quizSize = getQuizSize(words, options, allowMix);
+  const alternateCount = words.filter(w => w.alternateSpelling).length;
+  const mixTotal = options.difficultyMix?.reduce((sum, share) => sum + share, 0) ?? 100;
+
+  const updateOptions = (changes: Partial<QuizSetupOptions>) => {
+    onChangeOptions({ ...options, ...changes });
+  };
+
+  const handleCountChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!isNaN(parsed) && parsed > 0) updateOptions({ wordCount: parsed });
+  };
+
+  const handleMixChange = (index: number, value: string) => {
+    const mix = [...(options.difficultyMix ?? DEFAULT_MIX)] as DifficultyMix;
+    mix[index] = Math.max(0, parseInt(value, 10) || 0);
+    updateOptions({ difficultyMix: mix });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button onClick={onBack} variant="ghost" size="sm" className="gap-2 text-[#1A1A2E]">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-xl font-bold text-[#1A1A2E]">{listName}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-8 space-y-6">
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 space-y-6">
+          <h2 className="text-xl font-bold text-[#1A1A2E] flex items-center gap-2">
+            <Settings2 className="w-5 h-5 text-[#D4941C]" />
+            Quiz Setup
+          </h2>
+
+          {/* Length */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-[#1A1A2E]">
+              Number of words <span className="text-gray-500 font-normal">({words.length} in this list)</span>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => updateOptions({ wordCount: null })}
+                variant={options.wordCount === null ? 'default' : 'outline'}
+              >
+                All
+              </Button>
+              {WORD_COUNTS.map(count => (
+                <Button
+                  key={count}
+                  onClick={() => updateOptions({ wordCount: count })}
+                  variant={options.wordCount === count ? 'default' : 'outline'}
+                >
+                  {count}
+                </Button>
+              ))}
+              <input
+                type="number"
+                min="1"
+                value={options.wordCount ?? ''}
+                placeholder="Other"
+                onChange={(e) => handleCountChange(e.target.value)}
+                aria-label="Number of words"
+                className="w-24 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+              />
+            </div>
+            {options.wordCount !== null && (
+              <div className="flex flex-col gap-2 pt-1 text-[#1A1A2E]">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    checked={options.sample}
+                    onChange={() => updateOptions({ sample: true })}
+                    className="w-5 h-5 accent-[#F4B942]"
+                  />
+                  <span>A random sample of the list</span>
+                </label>
+                <label className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    checked={!options.sample}
+                    onChange={() => updateOptions({ sample: false })}
+                    className="w-5 h-5 accent-[#F4B942]"
+                  />
+                  <span>The first {options.wordCount} in the order below</span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Order */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-[#1A1A2E]">Word order</label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {(Object.keys(WORD_ORDER_LABELS) as WordOrder[]).map(order => (
+                <Button
+                  key={order}
+                  onClick={() => updateOptions({ order })}
+                  variant={options.order === order ? 'default' : 'outline'}
+                >
+                  {WORD_ORDER_LABELS[order]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Alternates */}
+          <label className="flex items-center gap-3 text-[#1A1A2E]">
+            <input
+              type="checkbox"
+              checked={options.includeAlternates}
+              onChange={(e) => updateOptions({ includeAlternates: e.target.checked })}
+              className="w-5 h-5 accent-[#F4B942]"
+            />
+            <span>
+              <span className="font-medium">Include words with alternate spellings</span>
+              <span className="block text-xs text-gray-500">
+                {alternateCount} word{alternateCount !== 1 ? 's' : ''} in this list, like colour / color
+              </span>
+            </span>
+          </label>
+
+          {/* Difficulty mix */}
+          {allowMix && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-3 text-[#1A1A2E]">
+                <input
+                  type="checkbox"
+                  checked={options.difficultyMix !== null}
+                  onChange={(e) => updateOptions({ difficultyMix: e.target.checked ? DEFAULT_MIX : null })}
+                  className="w-5 h-5 accent-[#F4B942]"
+                />
+                <span className="font-medium">Mix difficulties</span>
+              </label>
+              {options.difficultyMix && (
+                <div className="grid grid-cols-3 gap-3">
+                  {options.difficultyMix.map((share, i) => (
+                    <label key={MIX_LABELS[i]} className="text-sm text-[#1A1A2E]">
+                      {MIX_LABELS[i]} %
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={share}
+                        onChange={(e) => handleMixChange(i, e.target.value)}
+                        className="w-full mt-1 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+              {mixTotal !== 100 && (
+                <p className="text-xs text-orange-600 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  These add up to {mixTotal}%, so they'll be scaled to fit.
+                </p>
+              )}
+            </div>
+          )}
+        </section>
+
+        <Button onClick={onStart} disabled={quizSize === 0} size="xl" className="w-full gap-3">
+          <Play className="w-6 h-6" />
+          {quizSize === 0 ? 'No words match these options' : `Start Quiz (${quizSize} word${quizSize !== 1 ? 's' : ''})`}
+        </Button>
+      </main>
+    </div>
+  );
+}
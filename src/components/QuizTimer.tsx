@@ -0,0 +1,42 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface QuizTimerProps {
+  timeLeftMs: number;
+  limitMs: number;
+  isStopped: boolean;
+}
+
+// The last quarter of the time (at least 5 seconds) is the warning phase
+export function isWarningPhase(timeLeftMs: number, limitMs: number): boolean {
+  return timeLeftMs <= Math.max(5000, limitMs * 0.25);
+}
+
+export function QuizTimer({ timeLeftMs, limitMs, isStopped }: QuizTimerProps) {
+  const clamped = Math.max(0, Math.min(timeLeftMs, limitMs));
+  const seconds = Math.ceil(clamped / 1000);
+  const isWarning = !isStopped && isWarningPhase(clamped, limitMs);
+
+  return (
+    <div className="w-full max-w-xs mx-auto space-y-1">
+      <div className={cn(
+        "flex items-center justify-center gap-2 font-bold text-lg",
+        isStopped ? "text-[#1A1A2E]/40" : isWarning ? "text-red-600 animate-pulse" : "text-[#1A1A2E]"
+      )}>
+        <Timer className="w-5 h-5" />
+        <span className="letter-slot">{seconds}s</span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-[#1A1A2E]/10 overflow-hidden">
+        <div
+          className={cn(
+            "h-full rounded-full transition-all duration-200 ease-linear",
+            isWarning ? "bg-red-500" : "bg-gradient-to-r from-[#F4B942] to-[#FFD93D]",
+            isStopped && "opacity-40"
+          )}
+          style={{ width: `${(clamped / limitMs) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { Button } from './ui/button';
-import { Trophy, Star, Home, RotateCcw, ChevronDown, ChevronUp, Check, X, Save, Minus } from 'lucide-react';
+import { Trophy, Star, Home, RotateCcw, ChevronDown, ChevronUp, Check, X, Save, Minus, Timer, TrendingUp } from 'lucide-react';
 import { QuizResult } from './SpellingQuiz';
+import { ErrorPatterns } from './ErrorPatterns';
 import { getDifficultyLabel } from '../data/words';
+import { formatWorkingLevel } from '../data/staircase';
 import { cn } from '../lib/utils';
 
 interface ResultsScreenProps {
@@ -10,10 +12,18 @@ interface ResultsScreenProps {
   onPlayAgain: () => void;
   onGoHome: () => void;
   isNewHighScore: boolean;
+  workingLevel?: number | null; // from an adaptive quiz
   onSaveWrongWordsAsList?: (wordIds: string[]) => void;
 }
 
-export function ResultsScreen({ results, onPlayAgain, onGoHome, isNewHighScore, onSaveWrongWordsAsList }: ResultsScreenProps) {
+export function ResultsScreen({
+  results,
+  onPlayAgain,
+  onGoHome,
+  isNewHighScore,
+  workingLevel = null,
+  onSaveWrongWordsAsList,
+}: ResultsScreenProps) {
   const [showDetails, setShowDetails] = useState(false);
   
   // Separate words by state
@@ -27,9 +37,18 @@ export function ResultsScreen({ results, onPlayAgain, onGoHome, isNewHighScore,
   const total = results.length;
   const percentage = answeredCount > 0 ? Math.round((score / answeredCount) * 100) : 0;
 
+  // Timing summary (words that were reached and timed)
+  const timedResults = results.filter(r => r.timeMs !== undefined);
+  const averageTimeMs = timedResults.length > 0
+    ? timedResults.reduce((sum, r) => sum + (r.timeMs || 0), 0) / timedResults.length
+    : 0;
+  const slowestResults = [...timedResults].sort((a, b) => (b.timeMs || 0) - (a.timeMs || 0)).slice(0, 3);
+  const timedOutCount = results.filter(r => r.timedOut).length;
+  const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
   const handleSaveWrongWords = () => {
     if (!onSaveWrongWordsAsList || incorrectWords.length === 0) return;
-    const wordIds = incorrectWords.map(r => r.word.word);
+    const wordIds = incorrectWords.map(r => r.word.id);
     onSaveWrongWordsAsList(wordIds);
     alert(`Saved ${incorrectWords.length} words to "Last Wrong" list!`);
   };
@@ -117,6 +136,48 @@ export function ResultsScreen({ results, onPlayAgain, onGoHome, isNewHighScore,
             </p>
           </div>
 
+          {/* Adaptive quiz level */}
+          {workingLevel !== null && (
+            <div className="bg-[#FEF9EF] rounded-2xl p-4 space-y-1">
+              <h3 className="text-sm font-semibold text-[#1A1A2E] flex items-center justify-center gap-2">
+                <TrendingUp className="w-4 h-4 text-[#D4941C]" />
+                Working level: {formatWorkingLevel(workingLevel)}
+              </h3>
+              <p className="text-xs text-[#1A1A2E]/60">
+                Where the quiz settled as it moved up and down with your answers.
+              </p>
+            </div>
+          )}
+
+          {/* Timing Summary */}
+          {timedResults.length > 0 && (
+            <div className="bg-[#FEF9EF] rounded-2xl p-4 space-y-2 text-left">
+              <h3 className="text-sm font-semibold text-[#1A1A2E] flex items-center gap-2">
+                <Timer className="w-4 h-4 text-[#D4941C]" />
+                Average time: {formatSeconds(averageTimeMs)} per word
+              </h3>
+              {timedOutCount > 0 && (
+                <p className="text-xs text-red-600">
+                  Ran out of time on {timedOutCount} word{timedOutCount !== 1 ? 's' : ''}
+                </p>
+              )}
+              <div className="space-y-1">
+                <p className="text-xs text-[#1A1A2E]/60">Slowest words</p>
+                {slowestResults.map((result, i) => (
+                  <div key={i} className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-[#1A1A2E]">{result.word.word}</span>
+                    <span className="text-[#1A1A2E]/70">
+                      {result.timedOut ? 'out of time' : formatSeconds(result.timeMs || 0)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Mistake Patterns (typed and spoken answers only) */}
+          <ErrorPatterns results={results} />
+
           {/* Words Review */}
           <button
             onClick={() => setShowDetails(!showDetails)}
@@ -158,7 +219,17 @@ export function ResultsScreen({ results, onPlayAgain, onGoHome, isNewHighScore,
                   </h3>
                   {incorrectWords.map((result, i) => (
                     <div key={i} className="flex items-center justify-between p-2 bg-red-50 rounded-lg">
-                      <span className="font-medium text-red-900">{result.word.word}</span>
+                      <span className="font-medium text-red-900">
+                        {result.word.word}
+                        {result.entered && (
+                          <span className="ml-2 text-sm font-normal text-red-600">
+                            (your answer: <span className="line-through">{result.entered}</span>)
+                          </span>
+                        )}
+                        {result.timedOut && (
+                          <span className="ml-2 text-xs font-normal text-red-500">⏱ out of time</span>
+                        )}
+                      </span>
                       <span className={cn(
                         'text-xs px-2 py-0.5 rounded-full',
                         result.word.difficulty === 1 && 'bg-green-100 text-green-700',
@@ -180,7 +251,12 @@ export function ResultsScreen({ results, onPlayAgain, onGoHome, isNewHighScore,
                   </h3>
                   {unansweredWords.map((result, i) => (
                     <div key={i} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-                      <span className="font-medium text-gray-700">{result.word.word}</span>
+                      <span className="font-medium text-gray-700">
+                        {result.word.word}
+                        {result.timedOut && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">⏱ out of time</span>
+                        )}
+                      </span>
                       <span className={cn(
                         'text-xs px-2 py-0.5 rounded-full',
                         result.word.difficulty === 1 && 'bg-green-100 text-green-700',
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Tag, RefreshCw } from 'lucide-react';
+import { WordMeaning } from '../services/dictionaryProviders';
+import { cn } from '../lib/utils';
+
+interface SensePickerProps {
+  meanings: WordMeaning[];
+  meaningIndex: number;
+  senseIndex: number;
+  exampleCount: number;
+  onSelectMeaning: (index: number) => void;
+  onHearPartOfSpeech: () => void;
+  onAnotherDefinition: () => void;
+  onAnotherExample: () => void;
+  disabled?: boolean;
+}
+
+// Choose a part of speech and step through its definitions and examples
+export function SensePicker({
+  meanings,
+  meaningIndex,
+  senseIndex,
+  exampleCount,
+  onSelectMeaning,
+  onHearPartOfSpeech,
+  onAnotherDefinition,
+  onAnotherExample,
+  disabled = false,
+}: SensePickerProps) {
+  if (meanings.length === 0) return null;
+  const senseCount = meanings[meaningIndex]?.senses.length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      {meanings.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {meanings.map((meaning, index) => (
+            <button
+              key={`${meaning.partOfSpeech}-${index}`}
+              onClick={() => onSelectMeaning(index)}
+              className={cn(
+                "px-3 py-1 rounded-full text-sm font-medium border-2 transition-colors",
+                index === meaningIndex
+                  ? "bg-[#F4B942] border-[#F4B942] text-[#1A1A2E]"
+                  : "bg-white border-gray-200 text-[#1A1A2E]/70 hover:border-[#F4B942]"
+              )}
+            >
+              {meaning.partOfSpeech || 'other'} ({meaning.senses.length})
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          onClick={onHearPartOfSpeech}
+          disabled={disabled || !meanings[meaningIndex]?.partOfSpeech}
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+        >
+          <Tag className="w-4 h-4" />
+          Part of Speech
+        </Button>
+        {senseCount > 1 && (
+          <Button
+            onClick={onAnotherDefinition}
+            disabled={disabled}
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Another Definition ({senseIndex + 1}/{senseCount})
+          </Button>
+        )}
+        {exampleCount > 1 && (
+          <Button
+            onClick={onAnotherExample}
+            disabled={disabled}
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Another Example
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
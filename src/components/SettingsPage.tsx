@@ -14,20 +14,69 @@ import {
   Edit2,
   X,
   Check,
-  List
+  List,
+  Users,
+  FileSpreadsheet,
+  ArrowUp,
+  ArrowDown,
+  ListPlus,
+  Timer,
+  Library,
+  DatabaseBackup,
+  Share2,
+  AlertTriangle,
+  Gauge
 } from 'lucide-react';
-import { AppSettings, CustomWordList } from '../hooks/useSettings';
-import { SpellingWord, getDifficultyLabel } from '../data/words';
+import { WordImportExport } from './WordImportExport';
+import { DictionarySources } from './DictionarySources';
+import { BackupRestore } from './BackupRestore';
+import { WordRow } from './WordRow';
+import { DifficultyReport } from './DifficultyReport';
+import { AppSettings, CustomWordList, TimeoutAction } from '../hooks/useSettings';
+import { SpellingWord, NewSpellingWord, getWordKey, getDifficultyLabel } from '../data/words';
+import { resolveListWords } from '../data/customLists';
+import { estimateDifficulty } from '../data/difficultyEstimate';
+import { StatsMap, getWordStats, getAccuracy } from '../data/wordStats';
+import { BackupData, HighScore } from '../data/backup';
+import { SETTINGS_SECTIONS, SettingsSection, formatRoute, getRouteUrl } from '../data/routes';
+import { encodeSharedList } from '../data/sharedLists';
+import { shareLink } from '../lib/share';
 import { cn } from '../lib/utils';
 
+type PerformanceFilter = 'all' | 'below50' | 'never' | 'attempted' | 'streak3';
+type WordSortKey = 'word' | 'difficulty' | 'attempts' | 'accuracy' | 'streak' | 'lastSeen';
+
+const SECTION_LABELS: Record<SettingsSection, string> = {
+  voice: 'Voice',
+  timer: 'Timer',
+  words: 'Words',
+  lists: 'Lists',
+  import: 'Import',
+  dictionary: 'Dictionary',
+  backup: 'Backup',
+  reset: 'Reset',
+};
+
+const SORT_COLUMNS: { key: WordSortKey; label: string }[] = [
+  { key: 'word', label: 'Word' },
+  { key: 'difficulty', label: 'Difficulty' },
+  { key: 'attempts', label: 'Attempts' },
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'streak', label: 'Streak' },
+  { key: 'lastSeen', label: 'Last Seen' },
+];
+
 interface SettingsPageProps {
   settings: AppSettings;
   words: SpellingWord[];
+  stats: StatsMap;
   customLists: CustomWordList[];
   onSaveSettings: (settings: Partial<AppSettings>) => void;
-  onAddWord: (word: SpellingWord) => void;
-  onRemoveWord: (index: number) => void;
-  onUpdateWord: (index: number, word: SpellingWord) => void;
+  onAddWord: (word: NewSpellingWord) => void;
+  onRemoveWords: (ids: string[]) => void;
+  onUpdateWord: (id: string, changes: Partial<NewSpellingWord>) => void;
+  onUpdateWords: (ids: string[], changes: Partial<NewSpellingWord>) => void;
+  onImportWords: (words: SpellingWord[], mode: 'merge' | 'replace') => void;
   onResetWords: () => void;
   onResetAll: () => void;
   onBack: () => void;
@@ -35,15 +84,25 @@ interface SettingsPageProps {
   onTestVoice: (text: string, rate: number, voiceURI: string) => void;
   onSaveCustomList: (name: string, wordIds: string[]) => void;
   onDeleteCustomList: (name: string) => void;
+  profileName: string;
+  sharedWordBank: boolean;
+  onChangeSharedWordBank: (shared: boolean) => void;
+  highScore: HighScore | null;
+  onRestoreBackup: (backup: BackupData) => void;
+  section: SettingsSection | null; // scrolled into view, from the URL
 }
 
 export function SettingsPage({
   settings,
   words,
+  stats,
   customLists,
   onSaveSettings,
   onAddWord,
-  onRemoveWord,
+  onRemoveWords,
+  onUpdateWord,
+  onUpdateWords,
+  onImportWords,
   onResetWords,
   onResetAll,
   onBack,
@@ -51,6 +110,12 @@ export function SettingsPage({
   onTestVoice,
   onSaveCustomList,
   onDeleteCustomList,
+  profileName,
+  sharedWordBank,
+  onChangeSharedWordBank,
+  highScore,
+  onRestoreBackup,
+  section,
 }: SettingsPageProps) {
   const [speechRate, setSpeechRate] = useState(settings.speechRate);
   const [selectedVoice, setSelectedVoice] = useState(settings.speechVoice);
@@ -58,11 +123,19 @@ export function SettingsPage({
   // New word form
   const [newWord, setNewWord] = useState('');
   const [newAlternate, setNewAlternate] = useState('');
-  const [newDifficulty, setNewDifficulty] = useState<1 | 2 | 3>(2);
+  const [newDifficulty, setNewDifficulty] = useState<1 | 2 | 3 | null>(null); // null follows the estimate
+  const [showDifficultyReport, setShowDifficultyReport] = useState(false);
   
   // Word list filters
   const [searchQuery, setSearchQuery] = useState('');
   const [difficultyFilter, setDifficultyFilter] = useState<1 | 2 | 3 | 'all'>('all');
+  const [performanceFilter, setPerformanceFilter] = useState<PerformanceFilter>('all');
+  const [sortKey, setSortKey] = useState<WordSortKey>('word');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  // Selected words, for bulk actions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkListName, setBulkListName] = useState('');
   
   // Custom list management
   const [newListName, setNewListName] = useState('');
@@ -77,16 +150,146 @@ export function SettingsPage({
     setSelectedVoice(settings.speechVoice);
   }, [settings]);
 
-  // Filter and search words
+  // Jump to the section named in the URL
+  useEffect(() => {
+    if (section) {
+      document.getElementById(`settings-${section}`)?.scrollIntoView({ behavior: 'smooth' });
+    } else {
+      window.scrollTo(0, 0);
+    }
+  }, [section]);
+
+  // Filter, search and sort words
   const filteredWords = useMemo(() => {
-    return words.filter(word => {
+    const filtered = words.filter(word => {
       const matchesSearch = searchQuery === '' || 
         word.word.toLowerCase().includes(searchQuery.toLowerCase()) ||
         (word.alternateSpelling?.toLowerCase().includes(searchQuery.toLowerCase()));
       const matchesDifficulty = difficultyFilter === 'all' || word.difficulty === difficultyFilter;
-      return matchesSearch && matchesDifficulty;
+
+      const wordStats = getWordStats(stats, word);
+      const accuracy = getAccuracy(wordStats);
+      let matchesPerformance = true;
+      switch (performanceFilter) {
+        case 'below50': matchesPerformance = accuracy !== null && accuracy < 0.5; break;
+        case 'never': matchesPerformance = accuracy === null; break;
+        case 'attempted': matchesPerformance = accuracy !== null; break;
+        case 'streak3': matchesPerformance = (wordStats?.streak ?? 0) >= 3; break;
+      }
+
+      return matchesSearch && matchesDifficulty && matchesPerformance;
+    });
+
+    // Words without stats sort after those with stats, whatever the direction
+    const sortValue = (word: SpellingWord): number | string | null => {
+      const wordStats = getWordStats(stats, word);
+      switch (sortKey) {
+        case 'word': return word.word.toLowerCase();
+        case 'difficulty': return word.difficulty;
+        case 'attempts': return wordStats?.attempts ?? null;
+        case 'accuracy': return getAccuracy(wordStats);
+        case 'streak': return wordStats?.streak ?? null;
+        case 'lastSeen': return wordStats?.lastSeenAt ?? null;
+      }
+    };
+
+    return [...filtered].sort((a, b) => {
+      const aValue = sortValue(a);
+      const bValue = sortValue(b);
+      if (aValue === null && bValue === null) return 0;
+      if (aValue === null) return 1;
+      if (bValue === null) return -1;
+      const compared = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+      return sortAscending ? compared : -compared;
     });
-  }, [words, searchQuery, difficultyFilter]);
+  }, [words, stats, searchQuery, difficultyFilter, performanceFilter, sortKey, sortAscending]);
+
+  const handleSort = (key: WordSortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  // Turn the current filtered view into a custom list
+  const handleSaveViewAsList = () => {
+    if (filteredWords.length === 0) return;
+    const name = window.prompt(`Save these ${filteredWords.length} words as a custom list named:`);
+    if (!name?.trim()) return;
+    if (customLists.some(l => l.name === name.trim()) &&
+        !window.confirm(`A list named "${name.trim()}" already exists. Replace it?`)) {
+      return;
+    }
+    onSaveCustomList(name.trim(), filteredWords.map(w => w.id));
+  };
+
+  // Selected words that are still in the bank
+  const selectedWords = useMemo(() => words.filter(w => selectedIds.has(w.id)), [words, selectedIds]);
+  const allShownSelected = filteredWords.length > 0 && filteredWords.every(w => selectedIds.has(w.id));
+
+  const handleToggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const updated = new Set(prev);
+      if (updated.has(id)) {
+        updated.delete(id);
+      } else {
+        updated.add(id);
+      }
+      return updated;
+    });
+  };
+
+  const handleToggleAllShown = () => {
+    setSelectedIds(prev => {
+      const updated = new Set(prev);
+      filteredWords.forEach(w => allShownSelected ? updated.delete(w.id) : updated.add(w.id));
+      return updated;
+    });
+  };
+
+  const handleBulkDifficulty = (difficulty: 1 | 2 | 3) => {
+    onUpdateWords(selectedWords.map(w => w.id), { difficulty });
+  };
+
+  const handleBulkDelete = () => {
+    const ids = selectedWords.map(w => w.id);
+    const affectedLists = customLists.filter(l => l.wordIds.some(id => selectedIds.has(id))).length;
+    const message = affectedLists > 0
+      ? `Delete ${ids.length} word${ids.length === 1 ? '' : 's'}? ` +
+        `${affectedLists} custom list${affectedLists === 1 ? '' : 's'} will lose them too.`
+      : `Delete ${ids.length} word${ids.length === 1 ? '' : 's'}?`;
+    if (!window.confirm(message)) return;
+    onRemoveWords(ids);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkAddToList = () => {
+    const list = customLists.find(l => l.name === bulkListName);
+    if (!list) return;
+    const added = selectedWords.map(w => w.id).filter(id => !list.wordIds.includes(id));
+    onSaveCustomList(list.name, [...list.wordIds, ...added]);
+  };
+
+  const handleBulkRemoveFromList = () => {
+    const list = customLists.find(l => l.name === bulkListName);
+    if (!list) return;
+    onSaveCustomList(list.name, list.wordIds.filter(id => !selectedIds.has(id)));
+  };
+
+  // Save an inline edit, unless it would duplicate another word
+  const handleSaveWord = (word: SpellingWord, changes: NewSpellingWord): boolean => {
+    const key = getWordKey(changes);
+    if (words.some(w => w.id !== word.id && getWordKey(w) === key)) {
+      alert('This word already exists in your list!');
+      return false;
+    }
+    onUpdateWord(word.id, changes);
+    return true;
+  };
+
+  const suggestion = useMemo(() => newWord.trim() ? estimateDifficulty(newWord) : null, [newWord]);
 
   // Count words by difficulty
   const wordCounts = useMemo(() => {
@@ -118,18 +321,33 @@ export function SettingsPage({
     onAddWord({
       word: newWord.trim(),
       alternateSpelling: newAlternate.trim() || undefined,
-      difficulty: newDifficulty,
+      difficulty: newDifficulty ?? suggestion?.difficulty ?? 2,
     });
     
     setNewWord('');
     setNewAlternate('');
-    setNewDifficulty(2);
+    setNewDifficulty(null);
   };
 
-  // Find the original index in the full words array
-  const getOriginalIndex = (filteredIndex: number): number => {
-    const word = filteredWords[filteredIndex];
-    return words.findIndex(w => w.word === word.word);
+  const renderWordStats = (word: SpellingWord) => {
+    const wordStats = getWordStats(stats, word);
+    const accuracy = getAccuracy(wordStats);
+    if (!wordStats || accuracy === null) {
+      return <span className="text-xs text-gray-400">Never tried</span>;
+    }
+    return (
+      <span className="text-xs text-gray-500 flex items-center gap-2">
+        <span>{wordStats.correct}/{wordStats.attempts}</span>
+        <span className={cn(
+          'font-medium',
+          accuracy < 0.5 ? 'text-red-600' : accuracy < 0.8 ? 'text-yellow-600' : 'text-green-600'
+        )}>
+          {Math.round(accuracy * 100)}%
+        </span>
+        {wordStats.streak > 0 && <span>🔥{wordStats.streak}</span>}
+        <span>{new Date(wordStats.lastSeenAt).toLocaleDateString()}</span>
+      </span>
+    );
   };
 
   // Custom list handlers
@@ -168,6 +386,21 @@ export function SettingsPage({
     );
   };
 
+  // Share a link that carries the list's words, so it works on another device
+  const handleShareList = async (list: CustomWordList) => {
+    const data = await encodeSharedList({ name: list.name, words: resolveListWords(list, words).words });
+    await shareLink(
+      getRouteUrl({ screen: 'share', data }),
+      `Spelling list: ${list.name}`,
+      'Link copied! Send it to a friend so they can add this list.'
+    );
+  };
+
+  // Drop entries for words that were deleted elsewhere (e.g. by another profile)
+  const handleRemoveMissing = (list: CustomWordList) => {
+    onSaveCustomList(list.name, resolveListWords(list, words).words.map(w => w.id));
+  };
+
   const handleDeleteList = (name: string) => {
     if (window.confirm(`Are you sure you want to delete "${name}"?`)) {
       onDeleteCustomList(name);
@@ -184,12 +417,29 @@ export function SettingsPage({
             Home
           </Button>
           <h1 className="text-2xl font-bold text-[#1A1A2E]">Settings</h1>
+          <span className="text-sm text-[#1A1A2E]/60">for {profileName}</span>
         </div>
+        <nav className="max-w-4xl mx-auto flex flex-wrap gap-2 mt-3">
+          {SETTINGS_SECTIONS.map(s => (
+            <a
+              key={s}
+              href={formatRoute({ screen: 'settings', section: s })}
+              className={cn(
+                "px-3 py-1 rounded-full text-sm font-medium transition-colors",
+                s === section
+                  ? "bg-[#F4B942] text-[#1A1A2E]"
+                  : "bg-white/70 text-[#1A1A2E]/70 hover:bg-[#F4B942]/20"
+              )}
+            >
+              {SECTION_LABELS[s]}
+            </a>
+          ))}
+        </nav>
       </header>
 
       <main className="max-w-4xl mx-auto p-4 md:p-8 space-y-8">
         {/* Voice Settings Section */}
-        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+        <section id="settings-voice" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
           <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
             <Volume2 className="w-5 h-5 text-[#D4941C]" />
             Voice Settings
@@ -236,6 +486,22 @@ export function SettingsPage({
               </select>
             </div>
 
+            {/* Recorded Pronunciations */}
+            <label className="flex items-center gap-3 text-[#1A1A2E]">
+              <input
+                type="checkbox"
+                checked={settings.preferRecordedAudio}
+                onChange={(e) => onSaveSettings({ preferRecordedAudio: e.target.checked })}
+                className="w-5 h-5 accent-[#F4B942]"
+              />
+              <span>
+                <span className="font-medium">Use recorded pronunciations when available</span>
+                <span className="block text-xs text-gray-500">
+                  Plays a real person saying the word, and falls back to the voice above
+                </span>
+              </span>
+            </label>
+
             {/* Test & Save Buttons */}
             <div className="flex gap-3">
               <Button
@@ -254,8 +520,65 @@ export function SettingsPage({
           </div>
         </section>
 
+        {/* Timer Section */}
+        <section id="settings-timer" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+          <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
+            <Timer className="w-5 h-5 text-[#D4941C]" />
+            Quiz Timer
+          </h2>
+
+          <div className="space-y-6">
+            <label className="flex items-center gap-3 text-[#1A1A2E]">
+              <input
+                type="checkbox"
+                checked={settings.timerEnabled}
+                onChange={(e) => onSaveSettings({ timerEnabled: e.target.checked })}
+                className="w-5 h-5 accent-[#F4B942]"
+              />
+              <span className="font-medium">Give each word a time limit</span>
+            </label>
+
+            {settings.timerEnabled && (
+              <>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-[#1A1A2E]">
+                    Time per word: {settings.timeLimitSeconds} seconds
+                  </label>
+                  <input
+                    type="range"
+                    min="10"
+                    max="120"
+                    step="5"
+                    value={settings.timeLimitSeconds}
+                    onChange={(e) => onSaveSettings({ timeLimitSeconds: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-[#F4B942]"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>10s</span>
+                    <span>2 min</span>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-[#1A1A2E]">
+                    When time runs out
+                  </label>
+                  <select
+                    value={settings.timeoutAction}
+                    onChange={(e) => onSaveSettings({ timeoutAction: e.target.value as TimeoutAction })}
+                    className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                  >
+                    <option value="miss">Count it as wrong</option>
+                    <option value="skip">Skip the word (not scored)</option>
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+        </section>
+
         {/* Word List Section */}
-        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+        <section id="settings-words" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-bold text-[#1A1A2E] flex items-center gap-2">
               <BookOpen className="w-5 h-5 text-[#D4941C]" />
@@ -263,6 +586,29 @@ export function SettingsPage({
             </h2>
           </div>
           
+          {/* Shared or per-profile word bank */}
+          <div className="flex items-center justify-between p-3 mb-4 bg-[#FEF9EF] rounded-xl">
+            <div className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-[#D4941C]" />
+              <div>
+                <p className="text-sm font-medium text-[#1A1A2E]">Word bank</p>
+                <p className="text-xs text-gray-500">
+                  {sharedWordBank
+                    ? 'All profiles use the same words.'
+                    : `${profileName} has their own words.`}
+                </p>
+              </div>
+            </div>
+            <select
+              value={sharedWordBank ? 'shared' : 'profile'}
+              onChange={(e) => onChangeSharedWordBank(e.target.value === 'shared')}
+              className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white text-sm"
+            >
+              <option value="shared">Shared</option>
+              <option value="profile">Per profile</option>
+            </select>
+          </div>
+
           {/* Word count summary */}
           <div className="flex flex-wrap gap-3 mb-4">
             <span className="text-sm bg-gray-100 px-3 py-1 rounded-full">
@@ -299,7 +645,7 @@ export function SettingsPage({
                 className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
               />
               <select
-                value={newDifficulty}
+                value={newDifficulty ?? suggestion?.difficulty ?? 2}
                 onChange={(e) => setNewDifficulty(parseInt(e.target.value) as 1 | 2 | 3)}
                 className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
               >
@@ -312,8 +658,30 @@ export function SettingsPage({
                 Add Word
               </Button>
             </div>
+            {suggestion && (
+              <p className="text-xs text-gray-500 mt-2">
+                Suggested: <strong>{getDifficultyLabel(suggestion.difficulty)}</strong>
+                {suggestion.reasons.length > 0 && ` (${suggestion.reasons.join(', ')})`}
+                {newDifficulty !== null && newDifficulty !== suggestion.difficulty && (
+                  <button
+                    onClick={() => setNewDifficulty(null)}
+                    className="ml-2 text-[#D4941C] underline hover:text-[#1A1A2E]"
+                  >
+                    Use suggestion
+                  </button>
+                )}
+              </p>
+            )}
           </div>
 
+          {showDifficultyReport && (
+            <DifficultyReport
+              words={words}
+              onApply={(difficulty, ids) => onUpdateWords(ids, { difficulty })}
+              onClose={() => setShowDifficultyReport(false)}
+            />
+          )}
+
           {/* Search and Filter */}
           <div className="flex flex-col md:flex-row gap-3 mb-4">
             <div className="relative flex-1">
@@ -338,49 +706,154 @@ export function SettingsPage({
                 <option value={2}>Medium</option>
                 <option value={3}>Hard</option>
               </select>
+              <select
+                value={performanceFilter}
+                onChange={(e) => setPerformanceFilter(e.target.value as PerformanceFilter)}
+                className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+              >
+                <option value="all">Any Performance</option>
+                <option value="below50">Accuracy below 50%</option>
+                <option value="never">Never attempted</option>
+                <option value="attempted">Attempted</option>
+                <option value="streak3">Streak of 3+</option>
+              </select>
             </div>
           </div>
 
           {/* Words List */}
           <div className="space-y-2">
-            <p className="text-sm text-gray-500 mb-2">
-              Showing {filteredWords.length} of {words.length} words
-            </p>
-            <div className="max-h-96 overflow-y-auto space-y-2">
-              {filteredWords.map((word, filteredIndex) => (
-                <div
-                  key={`${word.word}-${filteredIndex}`}
-                  className="flex items-center justify-between p-3 bg-white rounded-xl border border-gray-200 hover:border-[#F4B942]/50 transition-colors"
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm text-gray-500">
+                Showing {filteredWords.length} of {words.length} words
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => setShowDifficultyReport(true)}
+                  disabled={words.length === 0 || showDifficultyReport}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
                 >
-                  <div className="flex items-center gap-4 flex-wrap">
-                    <span className="font-medium text-[#1A1A2E]">{word.word}</span>
-                    {word.alternateSpelling && (
-                      <span className="text-sm text-gray-500">
-                        (alt: {word.alternateSpelling})
-                      </span>
-                    )}
-                    <span className={cn(
-                      'text-xs font-medium px-2 py-1 rounded-full',
-                      word.difficulty === 1 && 'bg-green-100 text-green-700',
-                      word.difficulty === 2 && 'bg-yellow-100 text-yellow-700',
-                      word.difficulty === 3 && 'bg-red-100 text-red-700',
-                    )}>
-                      {getDifficultyLabel(word.difficulty)}
-                    </span>
-                  </div>
+                  <Gauge className="w-4 h-4" />
+                  Re-estimate All
+                </Button>
+                <Button
+                  onClick={handleSaveViewAsList}
+                  disabled={filteredWords.length === 0}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <ListPlus className="w-4 h-4" />
+                  Save View as List
+                </Button>
+              </div>
+            </div>
+
+            {/* Sort Columns */}
+            <div className="flex flex-wrap gap-1 text-xs">
+              <span className="text-gray-500 py-1 pr-1">Sort by:</span>
+              {SORT_COLUMNS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => handleSort(key)}
+                  className={cn(
+                    "flex items-center gap-1 px-2 py-1 rounded-full border transition-colors",
+                    sortKey === key
+                      ? "bg-[#F4B942]/20 border-[#F4B942] text-[#1A1A2E] font-medium"
+                      : "border-gray-200 text-gray-500 hover:border-[#F4B942]/50"
+                  )}
+                >
+                  {label}
+                  {sortKey === key && (sortAscending
+                    ? <ArrowUp className="w-3 h-3" />
+                    : <ArrowDown className="w-3 h-3" />)}
+                </button>
+              ))}
+            </div>
+
+            {/* Selection and bulk actions */}
+            <div className="flex flex-wrap items-center gap-3 p-3 bg-[#FEF9EF] rounded-xl">
+              <label className="flex items-center gap-2 text-sm text-[#1A1A2E]">
+                <input
+                  type="checkbox"
+                  checked={allShownSelected}
+                  onChange={handleToggleAllShown}
+                  disabled={filteredWords.length === 0}
+                  className="w-5 h-5 accent-[#F4B942]"
+                />
+                Select all shown
+              </label>
+              {selectedWords.length > 0 && (
+                <>
+                  <span className="text-sm font-medium text-[#1A1A2E]">
+                    {selectedWords.length} selected
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) => handleBulkDifficulty(parseInt(e.target.value) as 1 | 2 | 3)}
+                    aria-label="Set difficulty of selected words"
+                    className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white text-sm"
+                  >
+                    <option value="" disabled>Set difficulty...</option>
+                    <option value={1}>Easy</option>
+                    <option value={2}>Medium</option>
+                    <option value={3}>Hard</option>
+                  </select>
+                  {customLists.length > 0 && (
+                    <div className="flex items-center gap-1">
+                      <select
+                        value={bulkListName}
+                        onChange={(e) => setBulkListName(e.target.value)}
+                        aria-label="Custom list for selected words"
+                        className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white text-sm"
+                      >
+                        <option value="">Choose a list...</option>
+                        {customLists.map(list => (
+                          <option key={list.name} value={list.name}>{list.name}</option>
+                        ))}
+                      </select>
+                      <Button onClick={handleBulkAddToList} disabled={!bulkListName} variant="outline" size="sm" className="gap-1">
+                        <Plus className="w-4 h-4" />
+                        Add
+                      </Button>
+                      <Button onClick={handleBulkRemoveFromList} disabled={!bulkListName} variant="outline" size="sm" className="gap-1">
+                        <X className="w-4 h-4" />
+                        Remove
+                      </Button>
+                    </div>
+                  )}
                   <Button
-                    onClick={() => onRemoveWord(getOriginalIndex(filteredIndex))}
-                    variant="ghost"
+                    onClick={handleBulkDelete}
+                    variant="outline"
                     size="sm"
-                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                    className="gap-1 text-red-500 hover:text-red-700 hover:bg-red-50"
                   >
                     <Trash2 className="w-4 h-4" />
+                    Delete
                   </Button>
-                </div>
+                  <Button onClick={() => setSelectedIds(new Set())} variant="ghost" size="sm">
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto space-y-2">
+              {filteredWords.map((word) => (
+                <WordRow
+                  key={word.id}
+                  word={word}
+                  stats={renderWordStats(word)}
+                  isSelected={selectedIds.has(word.id)}
+                  onToggleSelected={() => handleToggleSelected(word.id)}
+                  onSave={(changes) => handleSaveWord(word, changes)}
+                  onRemove={() => onRemoveWords([word.id])}
+                />
               ))}
               {filteredWords.length === 0 && (
                 <p className="text-center text-gray-500 py-8">
-                  {searchQuery || difficultyFilter !== 'all' 
+                  {searchQuery || difficultyFilter !== 'all' || performanceFilter !== 'all' 
                     ? 'No words match your search criteria.'
                     : 'No words in your list. Add some words above!'}
                 </p>
@@ -390,7 +863,7 @@ export function SettingsPage({
         </section>
 
         {/* Custom Lists Section */}
-        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+        <section id="settings-lists" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
           <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
             <List className="w-5 h-5 text-[#D4941C]" />
             Custom Word Lists
@@ -424,7 +897,7 @@ export function SettingsPage({
             <div className="space-y-4">
               {customLists.map((list) => {
                 const isEditing = editingListName === list.name;
-                const listWords = words.filter(w => list.wordIds.includes(w.word));
+                const { words: listWords, missingIds } = resolveListWords(list, words);
                 
                 return (
                   <div
@@ -438,7 +911,7 @@ export function SettingsPage({
                           <div>
                             <h3 className="font-semibold text-[#1A1A2E]">{list.name}</h3>
                             <p className="text-sm text-gray-500">
-                              {list.wordIds.length} word{list.wordIds.length !== 1 ? 's' : ''}
+                              {listWords.length} word{listWords.length !== 1 ? 's' : ''}
                             </p>
                           </div>
                           <div className="flex gap-2">
@@ -451,6 +924,16 @@ export function SettingsPage({
                               <Edit2 className="w-4 h-4" />
                               Edit
                             </Button>
+                            <Button
+                              onClick={() => handleShareList(list)}
+                              variant="outline"
+                              size="sm"
+                              className="gap-2"
+                              disabled={listWords.length === 0}
+                            >
+                              <Share2 className="w-4 h-4" />
+                              Share
+                            </Button>
                             <Button
                               onClick={() => handleDeleteList(list.name)}
                               variant="ghost"
@@ -461,11 +944,27 @@ export function SettingsPage({
                             </Button>
                           </div>
                         </div>
+                        {missingIds.length > 0 && (
+                          <div className="flex items-center justify-between gap-3 p-2 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-700">
+                            <span className="flex items-center gap-2">
+                              <AlertTriangle className="w-4 h-4 shrink-0" />
+                              {missingIds.length} word{missingIds.length !== 1 ? 's are' : ' is'} no longer in the word bank
+                            </span>
+                            <Button
+                              onClick={() => handleRemoveMissing(list)}
+                              variant="ghost"
+                              size="sm"
+                              className="text-orange-700 hover:bg-orange-100"
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        )}
                         {listWords.length > 0 && (
                           <div className="flex flex-wrap gap-2">
                             {listWords.slice(0, 10).map((word) => (
                               <span
-                                key={word.word}
+                                key={word.id}
                                 className="text-xs bg-white px-2 py-1 rounded-full border border-gray-200 text-[#1A1A2E] font-medium"
                               >
                                 {word.word}
@@ -514,11 +1013,11 @@ export function SettingsPage({
                             Select words for this list:
                           </p>
                           {words.map((word) => {
-                            const isSelected = editingListWords.includes(word.word);
+                            const isSelected = editingListWords.includes(word.id);
                             return (
                               <button
-                                key={word.word}
-                                onClick={() => handleToggleWordInList(word.word)}
+                                key={word.id}
+                                onClick={() => handleToggleWordInList(word.id)}
                                 className={cn(
                                   "w-full text-left p-2 rounded-lg border-2 transition-colors",
                                   isSelected
@@ -545,8 +1044,47 @@ export function SettingsPage({
           )}
         </section>
 
+        {/* Import & Export Section */}
+        <section id="settings-import" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+          <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-[#D4941C]" />
+            Import & Export
+          </h2>
+          <WordImportExport
+            words={words}
+            customLists={customLists}
+            onImportWords={onImportWords}
+            onSaveCustomList={onSaveCustomList}
+          />
+        </section>
+
+        {/* Dictionary Sources Section */}
+        <section id="settings-dictionary" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+          <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
+            <Library className="w-5 h-5 text-[#D4941C]" />
+            Dictionary Sources
+          </h2>
+          <DictionarySources />
+        </section>
+
+        {/* Backup Section */}
+        <section id="settings-backup" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20">
+          <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
+            <DatabaseBackup className="w-5 h-5 text-[#D4941C]" />
+            Backup & Restore
+          </h2>
+          <BackupRestore
+            profileName={profileName}
+            settings={settings}
+            words={words}
+            customLists={customLists}
+            highScore={highScore}
+            onRestore={onRestoreBackup}
+          />
+        </section>
+
         {/* Reset Section */}
-        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-red-200">
+        <section id="settings-reset" className="scroll-mt-32 bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-red-200">
           <h2 className="text-xl font-bold text-[#1A1A2E] mb-4">Reset Options</h2>
           <div className="space-y-4">
             <div className="flex items-center justify-between p-4 bg-amber-50 rounded-xl border border-amber-200">
@@ -570,7 +1108,9 @@ export function SettingsPage({
               <div>
                 <p className="font-medium text-red-900">Reset Everything</p>
                 <p className="text-sm text-red-700">
-                  Reset all settings and restore the original word list.
+                  {sharedWordBank
+                    ? `Reset ${profileName}'s settings, lists and progress. The shared word list is kept.`
+                    : `Reset ${profileName}'s settings, lists and progress, and restore the original word list.`}
                 </p>
               </div>
               <Button
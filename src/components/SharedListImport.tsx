@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from './ui/button';
+import { ArrowLeft, Download, Loader2, AlertTriangle, Plus, Check } from 'lucide-react';
+import { CustomWordList } from '../hooks/useSettings';
+import { SpellingWord, getDifficultyLabel, getDifficultyColor } from '../data/words';
+import { SharedList, decodeSharedList, planSharedListImport } from '../data/sharedLists';
+import { cn } from '../lib/utils';
+
+interface SharedListImportProps {
+  data: string; // encoded list from the link
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  onImport: (newWords: SpellingWord[], listName: string, wordIds: string[]) => void;
+  onCancel: () => void;
+}
+
+// Preview of a list someone shared, before it's added to this device
+export function SharedListImport({ data, words, customLists, onImport, onCancel }: SharedListImportProps) {
+  const [shared, setShared] = useState<SharedList | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [conflictMode, setConflictMode] = useState<'rename' | 'replace'>('rename');
+  const [listName, setListName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    decodeSharedList(data).then(list => {
+      if (cancelled) return;
+      setShared(list);
+      // Start from a free name so nothing is overwritten by accident
+      if (list) setListName(planSharedListImport(list, words, customLists).suggestedName);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [data, words, customLists]);
+
+  const plan = useMemo(
+    () => shared ? planSharedListImport(shared, words, customLists) : null,
+    [shared, words, customLists]
+  );
+
+  const trimmedName = listName.trim();
+  const renameTaken = conflictMode === 'rename' && customLists.some(l => l.name === trimmedName);
+  const canImport = !!plan && plan.wordIds.length > 0
+    && (conflictMode === 'replace' || (trimmedName !== '' && !renameTaken));
+
+  const handleImport = () => {
+    if (!shared || !plan || !canImport) return;
+    const name = plan.nameTaken && conflictMode === 'replace' ? shared.name : trimmedName;
+    onImport(plan.newWords, name, plan.wordIds);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button onClick={onCancel} variant="ghost" size="sm" className="gap-2 text-[#1A1A2E]">
+            <ArrowLeft className="w-4 h-4" />
+            Home
+          </Button>
+          <h1 className="text-xl font-bold text-[#1A1A2E]">Shared Word List</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 md:p-8 space-y-6">
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 p-8 text-[#1A1A2E]/70">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Opening list...
+          </div>
+        )}
+
+        {!isLoading && !shared && (
+          <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-2xl text-red-700">
+            <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+            <p>This link is damaged or incomplete. Ask for the list to be shared again.</p>
+          </div>
+        )}
+
+        {shared && plan && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 space-y-5">
+            <div>
+              <h2 className="text-2xl font-bold text-[#1A1A2E]">{shared.name}</h2>
+              <p className="text-sm text-[#1A1A2E]/60">
+                {plan.wordIds.length} word{plan.wordIds.length !== 1 ? 's' : ''}
+                {' · '}
+                {plan.newWords.length} new to your word bank
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto">
+              {plan.newWords.map(word => (
+                <span
+                  key={word.word}
+                  className={cn(
+                    "text-xs bg-[#F4B942]/10 px-2 py-1 rounded-full border border-[#F4B942] font-medium flex items-center gap-1",
+                    getDifficultyColor(word.difficulty)
+                  )}
+                  title={`New word · ${getDifficultyLabel(word.difficulty)}`}
+                >
+                  <Plus className="w-3 h-3" />
+                  {word.word}
+                  {word.alternateSpelling && <span className="opacity-70">/ {word.alternateSpelling}</span>}
+                </span>
+              ))}
+              {plan.existingWords.map(word => (
+                <span
+                  key={word.word}
+                  className="text-xs bg-white px-2 py-1 rounded-full border border-gray-200 text-[#1A1A2E] font-medium"
+                  title="Already in your word bank"
+                >
+                  {word.word}
+                </span>
+              ))}
+            </div>
+
+            {/* Name */}
+            <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-3">
+              {plan.nameTaken && (
+                <>
+                  <p className="text-sm text-[#1A1A2E]">
+                    You already have a list called <strong>{shared.name}</strong>.
+                  </p>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={conflictMode === 'rename'}
+                        onChange={() => setConflictMode('rename')}
+                        className="accent-[#F4B942]"
+                      />
+                      Save with a new name
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={conflictMode === 'replace'}
+                        onChange={() => setConflictMode('replace')}
+                        className="accent-[#F4B942]"
+                      />
+                      Replace my list
+                    </label>
+                  </div>
+                </>
+              )}
+              {(!plan.nameTaken || conflictMode === 'rename') && (
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-[#1A1A2E]">List name</label>
+                  <input
+                    type="text"
+                    value={listName}
+                    onChange={(e) => setListName(e.target.value)}
+                    className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                  />
+                  {renameTaken && (
+                    <p className="text-sm text-red-600">That name is already used.</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={handleImport} disabled={!canImport} className="gap-2">
+                {plan.newWords.length > 0 ? <Download className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                {plan.newWords.length > 0
+                  ? `Add ${plan.newWords.length} Word${plan.newWords.length !== 1 ? 's' : ''} and Save List`
+                  : 'Save List'}
+              </Button>
+              <Button onClick={onCancel} variant="ghost">
+                Cancel
+              </Button>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
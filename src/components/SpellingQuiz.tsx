@@ -1,9 +1,27 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from './ui/button';
 import { Progress } from './ui/progress';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
 import { useDictionary } from '../hooks/useDictionary';
-import { SpellingWord, getDifficultyLabel, getDifficultyColor } from '../data/words';
+import { useRecordedAudio } from '../hooks/useRecordedAudio';
+import { useSenseSelection } from '../hooks/useSenseSelection';
+import { QuizMode, TimeoutAction } from '../hooks/useSettings';
+import { SpellingWord, getDifficultyLabel, getDifficultyColor, checkSpelling } from '../data/words';
+import {
+  AdaptiveQuizOptions,
+  startStaircase,
+  stepStaircase,
+  isStaircaseStable,
+  getWorkingLevel,
+  pickStaircaseWord,
+} from '../data/staircase';
+import { LetterSlots } from './LetterSlots';
+import { WordControls } from './WordControls';
+import { ResultDisplay } from './ResultDisplay';
+import { QuizTimer } from './QuizTimer';
+import { SensePicker } from './SensePicker';
+import { MeaningsList } from './MeaningsList';
+import { SpokenAnswer } from './SpokenAnswer';
 import { 
   Home, 
   Volume2, 
@@ -14,22 +32,39 @@ import {
   MessageSquareQuote,
   Loader2,
   ArrowRight,
-  Square
+  Square,
+  Keyboard
 } from 'lucide-react';
 import { cn } from '../lib/utils';
 
 interface SpellingQuizProps {
-  words: SpellingWord[];
-  onComplete: (results: QuizResult[]) => void;
+  words: SpellingWord[]; // asked in order, or the pool an adaptive quiz picks from
+  onComplete: (results: QuizResult[], endedBy: QuizEndReason, workingLevel?: number) => void;
   onExit: () => void;
   speechRate: number;
   speechVoice: string;
   onSaveVoiceSettings: (rate: number, voice: string) => void;
+  preferRecordedAudio?: boolean;
+  mode?: QuizMode;
+  timeLimitSeconds?: number; // per-word limit, 0 = untimed
+  timeoutAction?: TimeoutAction;
+  adaptive?: AdaptiveQuizOptions; // pick each word by how the last ones went
 }
 
 export interface QuizResult {
   word: SpellingWord;
   correct: boolean | null; // null means unanswered/skipped
+  entered?: string; // what was typed (or understood from speech) in typed and spoken modes
+  timeMs?: number; // time from the word appearing to reveal/check
+  timedOut?: boolean;
+}
+
+// 'finished' = every word answered, 'ended' = stopped early with "End Quiz"
+export type QuizEndReason = 'finished' | 'ended';
+
+interface TypedAttempt {
+  entered: string;
+  correct: boolean;
 }
 
 export function SpellingQuiz({ 
@@ -39,28 +74,66 @@ export function SpellingQuiz({
   speechRate: initialSpeechRate,
   speechVoice: initialSpeechVoice,
   onSaveVoiceSettings,
+  preferRecordedAudio = false,
+  mode = 'paper',
+  timeLimitSeconds = 0,
+  timeoutAction = 'miss',
+  adaptive,
 }: SpellingQuizProps) {
+  // Adaptive quizzes add each word as they go
+  const [staircase, setStaircase] = useState(() => adaptive ? startStaircase(adaptive.startLevel) : null);
+  const [quizWords, setQuizWords] = useState<SpellingWord[]>(() => {
+    if (!adaptive) return words;
+    const first = pickStaircaseWord(words, adaptive.startLevel, new Set());
+    return first ? [first] : [];
+  });
+  const totalWords = adaptive ? Math.min(adaptive.maxWords, words.length) : words.length;
   const [currentIndex, setCurrentIndex] = useState(0);
   const [revealed, setRevealed] = useState(false);
   const [results, setResults] = useState<QuizResult[]>([]);
   const [isSpellingOut, setIsSpellingOut] = useState(false);
   const [localRate, setLocalRate] = useState(initialSpeechRate);
   const [localVoice, setLocalVoice] = useState(initialSpeechVoice);
+  
+  // Typed and spoken mode state
+  const [typedInput, setTypedInput] = useState('');
+  const [lastAttempt, setLastAttempt] = useState<TypedAttempt | null>(null);
+  // The first check of each word is the one that counts; retries are for practice
+  const [firstAttempt, setFirstAttempt] = useState<TypedAttempt | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [spokenAttempt, setSpokenAttempt] = useState(0); // remounts the spoken answer to start over
 
-  const currentWord = words[currentIndex];
-  const progress = ((currentIndex) / words.length) * 100;
+  // Timing state
+  const [wordStartedAt, setWordStartedAt] = useState(() => Date.now());
+  const [stoppedAfterMs, setStoppedAfterMs] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const limitMs = timeLimitSeconds * 1000;
+  const isTimed = limitMs > 0;
+  const isTimerRunning = isTimed && stoppedAfterMs === null;
+  const timeLeftMs = stoppedAfterMs !== null ? limitMs - stoppedAfterMs : limitMs - (now - wordStartedAt);
+
+  const currentWord = quizWords[currentIndex];
+  const progress = ((currentIndex) / totalWords) * 100;
   const correctCount = results.filter(r => r.correct).length;
 
   // Fetch dictionary data for current word
   const { wordData, isLoading: isLoadingDictionary } = useDictionary(currentWord.word);
+  const senses = useSenseSelection(wordData);
 
   const {
     speak,
     speakWord,
-    isSpeaking,
+    isSpeaking: isSpeakingTTS,
     isSupported: isTTSSupported,
     voices,
   } = useTextToSpeech(localRate, localVoice);
+  const {
+    recordingUrl,
+    isLoadingRecording,
+    playRecording,
+    isPlayingRecording,
+  } = useRecordedAudio(currentWord.word, preferRecordedAudio);
+  const isSpeaking = isSpeakingTTS || isPlayingRecording;
 
   // Filter to English voices
   const englishVoices = voices.filter(v => v.lang.startsWith('en'));
@@ -76,20 +149,39 @@ export function SpellingQuiz({
     onSaveVoiceSettings(localRate, newVoice);
   }, [localRate, onSaveVoiceSettings]);
 
-  // Pronounce the word when it changes
-  useEffect(() => {
-    if (currentWord && isTTSSupported && !revealed) {
-      const timer = setTimeout(() => {
-        speakWord(currentWord.word, { 
-          rate: localRate * 0.9,
-          voiceURI: localVoice 
-        }).catch(() => {
-          // Silently handle errors (interrupted errors are expected)
-        });
-      }, 500);
-      return () => clearTimeout(timer);
+  // Say the word, using the recorded pronunciation when preferred and available
+  const pronounceWord = useCallback(async () => {
+    if (recordingUrl) {
+      try {
+        window.speechSynthesis?.cancel();
+        await playRecording();
+        return;
+      } catch (e) {
+        // Fall back to speech synthesis
+      }
     }
-  }, [currentWord, speakWord, isTTSSupported, revealed, localRate, localVoice]);
+    await speakWord(currentWord.word, { 
+      rate: localRate * 0.9,
+      voiceURI: localVoice 
+    });
+  }, [recordingUrl, playRecording, speakWord, currentWord.word, localRate, localVoice]);
+
+  // Pronounce the word when it changes (once per word)
+  const autoplayedIndexRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!currentWord || revealed || autoplayedIndexRef.current === currentIndex) return;
+    if (!isTTSSupported && !recordingUrl) return;
+    // Wait for the recording lookup so it can be used
+    if (isLoadingRecording) return;
+
+    const timer = setTimeout(() => {
+      autoplayedIndexRef.current = currentIndex;
+      pronounceWord().catch(() => {
+        // Silently handle errors (interrupted errors are expected)
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentWord, currentIndex, revealed, isTTSSupported, recordingUrl, isLoadingRecording, pronounceWord]);
 
   // Spell out the word letter by letter
   const spellOutWord = useCallback(async () => {
@@ -126,29 +218,80 @@ export function SpellingQuiz({
     setIsSpellingOut(false);
   }, [currentWord.word, isSpeaking, isSpellingOut, localRate]);
 
+  // Stop the clock for the current word (reveal or first check)
+  const stopClock = useCallback(() => {
+    setStoppedAfterMs(prev => prev ?? Date.now() - wordStartedAt);
+  }, [wordStartedAt]);
+
   const handleReveal = useCallback(() => {
+    stopClock();
     setRevealed(true);
     // Spell out the word after revealing
     setTimeout(() => {
       spellOutWord();
     }, 300);
-  }, [spellOutWord]);
+  }, [spellOutWord, stopClock]);
 
-  const handleAnswer = useCallback((correct: boolean) => {
+  const handleAnswer = useCallback((correct: boolean | null, extra?: Partial<QuizResult>) => {
     // Stop any ongoing speech
     window.speechSynthesis.cancel();
     
-    const result: QuizResult = { word: currentWord, correct };
+    const result: QuizResult = {
+      word: currentWord,
+      correct,
+      timeMs: stoppedAfterMs ?? Date.now() - wordStartedAt,
+      ...extra,
+    };
     const newResults = [...results, result];
     setResults(newResults);
+
+    let nextWord: SpellingWord | null = quizWords[currentIndex + 1] ?? null;
+    let nextStaircase = staircase;
+    if (adaptive && staircase) {
+      nextStaircase = stepStaircase(staircase, correct);
+      setStaircase(nextStaircase);
+      nextWord = newResults.length < totalWords && !isStaircaseStable(nextStaircase)
+        ? pickStaircaseWord(words, nextStaircase.level, new Set(quizWords.map(w => w.id)))
+        : null;
+      if (nextWord) setQuizWords([...quizWords, nextWord]);
+    }
     
-    if (currentIndex < words.length - 1) {
+    if (nextWord) {
       setCurrentIndex(prev => prev + 1);
       setRevealed(false);
+      setTypedInput('');
+      setLastAttempt(null);
+      setFirstAttempt(null);
+      setWordStartedAt(Date.now());
+      setStoppedAfterMs(null);
     } else {
-      onComplete(newResults);
+      onComplete(newResults, 'finished', nextStaircase ? getWorkingLevel(nextStaircase) : undefined);
     }
-  }, [currentWord, currentIndex, words.length, results, onComplete]);
+  }, [currentWord, currentIndex, quizWords, words, totalWords, adaptive, staircase, results, onComplete, stoppedAfterMs, wordStartedAt]);
+
+  // Out of time: counts as a miss or a skip depending on the setting
+  const handleTimeout = useCallback(() => {
+    const entered = typedInput.trim();
+    handleAnswer(timeoutAction === 'miss' ? false : null, {
+      timeMs: limitMs,
+      timedOut: true,
+      ...(mode !== 'paper' && entered ? { entered } : {}),
+    });
+  }, [handleAnswer, timeoutAction, limitMs, mode, typedInput]);
+
+  // Tick the countdown while the clock is running
+  useEffect(() => {
+    if (!isTimerRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(interval);
+  }, [isTimerRunning, wordStartedAt]);
+
+  useEffect(() => {
+    if (isTimerRunning && timeLeftMs <= 0) {
+      handleTimeout();
+    }
+  }, [isTimerRunning, timeLeftMs, handleTimeout]);
 
   const handleEndQuiz = useCallback(() => {
     // Stop any ongoing speech
@@ -159,29 +302,121 @@ export function SpellingQuiz({
     
     // Add unanswered words as skipped (null)
     const allResults: QuizResult[] = [...results];
-    for (let i = 0; i < words.length; i++) {
-      if (!answeredWordIds.has(words[i].word)) {
-        allResults.push({ word: words[i], correct: null });
+    for (let i = 0; i < quizWords.length; i++) {
+      if (!answeredWordIds.has(quizWords[i].word)) {
+        allResults.push({ word: quizWords[i], correct: null });
       }
     }
     
-    onComplete(allResults);
-  }, [results, words, onComplete]);
+    onComplete(allResults, 'ended', staircase ? getWorkingLevel(staircase) : undefined);
+  }, [results, quizWords, staircase, onComplete]);
+
+  const handleHearWord = useCallback(() => {
+    pronounceWord().catch(() => {
+      // Silently handle errors (interrupted errors are expected)
+    });
+  }, [pronounceWord]);
+
+  // === Typed and spoken modes ===
+
+  const handleTypedChange = useCallback((value: string) => {
+    // Letters plus the punctuation spellOutWord knows how to say
+    setTypedInput(value.replace(/[^a-zA-Z' .-]/g, ''));
+  }, []);
+
+  const handleCheckTyped = useCallback(() => {
+    const entered = typedInput.trim();
+    if (!entered) return;
+    
+    const attempt: TypedAttempt = { entered, correct: checkSpelling(entered, currentWord) };
+    setLastAttempt(attempt);
+    if (!firstAttempt) {
+      setFirstAttempt(attempt);
+      stopClock();
+    }
+  }, [typedInput, currentWord, firstAttempt, stopClock]);
+
+  const handleTryAgain = useCallback(() => {
+    setTypedInput('');
+    setLastAttempt(null);
+    setTimeout(() => inputRef.current?.focus(), 0);
+  }, []);
+
+  // Clear the answer; a spoken answer starts listening afresh
+  const handleResetAnswer = useCallback(() => {
+    setTypedInput('');
+    setSpokenAttempt(prev => prev + 1);
+  }, []);
+
+  const handleTypedNext = useCallback(() => {
+    if (!firstAttempt) return;
+    handleAnswer(firstAttempt.correct, { entered: firstAttempt.entered });
+  }, [firstAttempt, handleAnswer]);
+
+  // Focus the input whenever a new word comes up
+  useEffect(() => {
+    if (mode === 'typed') {
+      inputRef.current?.focus();
+    }
+  }, [mode, currentIndex]);
+
+  // When the alternate spelling was typed, colour the slots against it
+  const slotTarget = lastAttempt?.correct && currentWord.alternateSpelling
+    && lastAttempt.entered.toLowerCase() === currentWord.alternateSpelling.toLowerCase()
+    ? currentWord.alternateSpelling
+    : currentWord.word;
+
+  // Read the selected sense, prefixed with its part of speech
+  const speakDefinition = useCallback((definition: string) => {
+    const partOfSpeech = senses.meaning?.partOfSpeech;
+    speak(partOfSpeech ? `${partOfSpeech}. ${definition}` : definition);
+  }, [senses.meaning, speak]);
 
   const handleHearDefinition = useCallback(() => {
-    if (wordData?.definition) {
-      const text = wordData.partOfSpeech 
-        ? `${wordData.partOfSpeech}. ${wordData.definition}`
-        : wordData.definition;
-      speak(text);
+    if (senses.sense) {
+      speakDefinition(senses.sense.definition);
+    }
+  }, [senses.sense, speakDefinition]);
+
+  const handleAnotherDefinition = useCallback(() => {
+    const sense = senses.nextSense();
+    if (sense) {
+      speakDefinition(sense.definition);
     }
-  }, [wordData, speak]);
+  }, [senses, speakDefinition]);
 
   const handleHearExample = useCallback(() => {
-    if (wordData?.example) {
-      speak(wordData.example);
+    if (senses.example) {
+      speak(senses.example);
+    }
+  }, [senses.example, speak]);
+
+  const handleAnotherExample = useCallback(() => {
+    const example = senses.nextExample();
+    if (example) {
+      speak(example);
+    }
+  }, [senses, speak]);
+
+  const handleHearPartOfSpeech = useCallback(() => {
+    if (senses.meaning?.partOfSpeech) {
+      speak(senses.meaning.partOfSpeech);
     }
-  }, [wordData, speak]);
+  }, [senses.meaning, speak]);
+
+  const sensePicker = (
+    <SensePicker
+      meanings={senses.meanings}
+      meaningIndex={senses.meaningIndex}
+      senseIndex={senses.senseIndex}
+      exampleCount={senses.exampleCount}
+      onSelectMeaning={senses.selectMeaning}
+      onHearPartOfSpeech={handleHearPartOfSpeech}
+      onAnotherDefinition={handleAnotherDefinition}
+      onAnotherExample={handleAnotherExample}
+      disabled={isSpeaking || isLoadingDictionary}
+    />
+  );
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7]">
@@ -208,7 +443,7 @@ export function SpellingQuiz({
             <div className="flex items-center gap-3">
               <Progress value={progress} className="flex-1" />
               <span className="text-sm font-medium text-[#1A1A2E] whitespace-nowrap">
-                {currentIndex + 1} / {words.length}
+                {currentIndex + 1} / {totalWords}
               </span>
             </div>
           </div>
@@ -267,21 +502,112 @@ export function SpellingQuiz({
           <div className="text-center">
             <span className="text-6xl md:text-8xl animate-float inline-block">🐝</span>
             <h2 className="text-xl md:text-2xl font-semibold text-[#1A1A2E] mt-2">
-              {revealed ? 'Did you spell it correctly?' : 'Listen and spell!'}
+              {revealed ? 'Did you spell it correctly?' : mode === 'typed' ? 'Listen and type it!' : mode === 'spoken' ? 'Listen and spell it aloud!' : 'Listen and spell!'}
             </h2>
             <p className="text-[#1A1A2E]/60 text-sm">
               Difficulty: <span className={`font-semibold ${getDifficultyColor(currentWord.difficulty)}`}>
                 {getDifficultyLabel(currentWord.difficulty)}
               </span>
-              {currentWord.alternateSpelling && (
+              {currentWord.alternateSpelling && mode === 'paper' && (
                 <span className="ml-2 text-purple-600">(alternate: {currentWord.alternateSpelling})</span>
               )}
             </p>
           </div>
 
+          {/* Countdown */}
+          {isTimed && (
+            <QuizTimer
+              timeLeftMs={timeLeftMs}
+              limitMs={limitMs}
+              isStopped={!isTimerRunning}
+            />
+          )}
+
           {/* Main Card */}
           <div className="bg-white/80 backdrop-blur-sm rounded-3xl p-6 md:p-8 shadow-xl border border-[#F4B942]/20">
-            {!revealed ? (
+            {mode !== 'paper' ? (
+              /* Typed and Spoken Modes */
+              <div className="text-center space-y-4">
+                <LetterSlots
+                  targetWord={slotTarget}
+                  enteredLetters={typedInput.split('')}
+                  showResult={lastAttempt !== null}
+                  isCorrect={lastAttempt?.correct ?? false}
+                />
+
+                {lastAttempt === null ? (
+                  <>
+                    {mode === 'spoken' ? (
+                      <SpokenAnswer
+                        key={`${currentIndex}-${spokenAttempt}`}
+                        word={currentWord.word}
+                        onHeard={setTypedInput}
+                        onCheck={handleCheckTyped}
+                      />
+                    ) : (
+                      <div className="flex justify-center gap-3">
+                        <input
+                          ref={inputRef}
+                          type="text"
+                          value={typedInput}
+                          onChange={(e) => handleTypedChange(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleCheckTyped()}
+                          placeholder="Type the spelling..."
+                          autoComplete="off"
+                          autoCorrect="off"
+                          autoCapitalize="off"
+                          spellCheck={false}
+                          className="letter-slot flex-1 max-w-xs p-3 text-xl border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                        />
+                        <Button
+                          onClick={handleCheckTyped}
+                          disabled={!typedInput.trim()}
+                          size="lg"
+                          className="gap-2"
+                        >
+                          <Keyboard className="w-5 h-5" />
+                          Check
+                        </Button>
+                      </div>
+                    )}
+
+                    <WordControls
+                      onHearWord={handleHearWord}
+                      onHearDefinition={handleHearDefinition}
+                      onHearExample={handleHearExample}
+                      onReset={handleResetAnswer}
+                      isSpeaking={isSpeaking}
+                      hasDefinition={!!senses.sense}
+                      hasExample={!!senses.example}
+                      isLoadingDictionary={isLoadingDictionary}
+                    />
+
+                    {sensePicker}
+                  </>
+                ) : (
+                  <ResultDisplay
+                    isCorrect={lastAttempt.correct}
+                    correctWord={currentWord.word}
+                    onNextWord={handleTypedNext}
+                    onTryAgain={handleTryAgain}
+                  />
+                )}
+
+                {firstAttempt && !firstAttempt.correct && lastAttempt?.correct && (
+                  <p className="text-sm text-[#1A1A2E]/60">
+                    Nice fix! Your first try ("{firstAttempt.entered}") is what counts for the score.
+                  </p>
+                )}
+
+                {/* Next hint */}
+                {currentIndex < totalWords - 1 && (
+                  <p className="text-sm text-[#1A1A2E]/50 flex items-center justify-center gap-1">
+                    <ArrowRight className="w-4 h-4" />
+                    {adaptive && 'up to '}{totalWords - currentIndex - 1} more words to go
+                  </p>
+                )}
+              </div>
+            ) : !revealed ? (
               /* Before Reveal */
               <div className="text-center space-y-6">
                 <p className="text-lg text-[#1A1A2E]/70">
@@ -290,14 +616,7 @@ export function SpellingQuiz({
                 
                 {/* Hear Word Button */}
                 <Button
-                  onClick={() => {
-                    speakWord(currentWord.word, { 
-                      rate: localRate * 0.9,
-                      voiceURI: localVoice 
-                    }).catch(() => {
-                      // Silently handle errors (interrupted errors are expected)
-                    });
-                  }}
+                  onClick={handleHearWord}
                   disabled={isSpeaking}
                   size="xl"
                   className={cn(
@@ -313,7 +632,7 @@ export function SpellingQuiz({
                 <div className="flex justify-center gap-3">
                   <Button
                     onClick={handleHearDefinition}
-                    disabled={isSpeaking || !wordData?.definition || isLoadingDictionary}
+                    disabled={isSpeaking || !senses.sense || isLoadingDictionary}
                     variant="outline"
                     size="lg"
                     className="gap-2"
@@ -328,7 +647,7 @@ export function SpellingQuiz({
                   
                   <Button
                     onClick={handleHearExample}
-                    disabled={isSpeaking || !wordData?.example || isLoadingDictionary}
+                    disabled={isSpeaking || !senses.example || isLoadingDictionary}
                     variant="outline"
                     size="lg"
                     className="gap-2"
@@ -342,6 +661,8 @@ export function SpellingQuiz({
                   </Button>
                 </div>
 
+                {sensePicker}
+
                 {/* Reveal Button */}
                 <Button
                   onClick={handleReveal}
@@ -393,20 +714,12 @@ export function SpellingQuiz({
                   </Button>
                 </div>
 
-                {/* Definition Display */}
-                {wordData?.definition && (
-                  <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-left">
-                    <p className="text-amber-900 text-sm">
-                      <strong className="capitalize">{wordData.partOfSpeech || 'Definition'}:</strong>{' '}
-                      {wordData.definition}
-                    </p>
-                    {wordData.example && (
-                      <p className="text-amber-700 text-sm mt-2 italic">
-                        Example: "{wordData.example}"
-                      </p>
-                    )}
-                  </div>
-                )}
+                {/* Definitions Display */}
+                <MeaningsList
+                  meanings={senses.meanings}
+                  meaningIndex={senses.meaningIndex}
+                  senseIndex={senses.senseIndex}
+                />
 
                 {/* Self-Grading Buttons */}
                 <div className="space-y-3">
@@ -435,10 +748,10 @@ export function SpellingQuiz({
                 </div>
 
                 {/* Next hint */}
-                {currentIndex < words.length - 1 && (
+                {currentIndex < totalWords - 1 && (
                   <p className="text-sm text-[#1A1A2E]/50 flex items-center justify-center gap-1">
                     <ArrowRight className="w-4 h-4" />
-                    {words.length - currentIndex - 1} more words to go
+                    {adaptive && 'up to '}{totalWords - currentIndex - 1} more words to go
                   </p>
                 )}
               </div>
@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo } from 'react';
+import { Button } from './ui/button';
+import { Mic, Square, Check, RotateCcw, AlertTriangle } from 'lucide-react';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { parseSpokenSpelling } from '../data/spokenSpelling';
+import { cn } from '../lib/utils';
+
+interface SpokenAnswerProps {
+  word: string;
+  onHeard: (letters: string) => void; // letters understood so far, for the letter slots
+  onCheck: () => void;
+}
+
+// Spell the word aloud; the transcript is shown for a grown-up to check
+// before it's graded
+export function SpokenAnswer({ word, onHeard, onCheck }: SpokenAnswerProps) {
+  const { isSupported, isListening, isFinished, transcript, error, start, stop, reset } = useSpeechRecognition();
+  const spelling = useMemo(() => parseSpokenSpelling(transcript, word), [transcript, word]);
+
+  useEffect(() => {
+    onHeard(spelling.letters);
+  }, [spelling.letters, onHeard]);
+
+  const handleSayAgain = () => {
+    reset();
+    start();
+  };
+
+  if (!isSupported) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-2xl text-red-700 text-left">
+        <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+        <p>
+          This browser can't listen for spelling. Try Chrome, Edge or Safari,
+          or choose "Type It" or "Write on Paper" instead.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!isFinished && (
+        <>
+          <Button
+            onClick={isListening ? stop : start}
+            size="xl"
+            className={cn(
+              "w-full max-w-xs mx-auto gap-3 text-xl h-20",
+              isListening && "animate-pulse bg-red-500 hover:bg-red-600 text-white"
+            )}
+          >
+            {isListening ? <Square className="w-7 h-7" /> : <Mic className="w-8 h-8" />}
+            {isListening ? 'Done Spelling' : 'Spell It Aloud'}
+          </Button>
+          <p className="text-sm text-[#1A1A2E]/60">
+            {isListening
+              ? transcript || 'Listening...'
+              : 'Say each letter, like "capital b, e, double t".'}
+          </p>
+        </>
+      )}
+
+      {isFinished && (
+        <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-3">
+          <p className="text-sm text-[#1A1A2E]/70">Grown-ups: check this is what was said.</p>
+          <p className="text-lg text-[#1A1A2E]">
+            {transcript ? <>Heard: <strong>"{transcript}"</strong></> : 'Nothing was heard.'}
+          </p>
+          {spelling.unrecognized.length > 0 && (
+            <p className="text-sm text-orange-600">
+              Not letters, left out: {spelling.unrecognized.join(', ')}
+            </p>
+          )}
+          <div className="flex justify-center gap-3">
+            <Button onClick={onCheck} disabled={!spelling.letters} size="lg" className="gap-2">
+              <Check className="w-5 h-5" />
+              Check Spelling
+            </Button>
+            <Button onClick={handleSayAgain} variant="outline" size="lg" className="gap-2">
+              <RotateCcw className="w-5 h-5" />
+              Say It Again
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
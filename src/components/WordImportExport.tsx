@@ -0,0 +1,421 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from './ui/button';
+import { Upload, Download, FileText, ClipboardPaste, AlertTriangle } from 'lucide-react';
+import { CustomWordList } from '../hooks/useSettings';
+import { SpellingWord, getDifficultyLabel, getWordKey, withWordId } from '../data/words';
+import { resolveListWords } from '../data/customLists';
+import {
+  WordListFormat,
+  ParsedTable,
+  ColumnMapping,
+  FORMAT_LABELS,
+  detectFormat,
+  parseWordListText,
+  guessColumnMapping,
+  mapRowsToWords,
+  exportWordList,
+  getMimeType,
+} from '../data/wordListFormats';
+import { downloadTextFile, toFileName } from '../lib/download';
+import { cn } from '../lib/utils';
+
+interface WordImportExportProps {
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  onImportWords: (words: SpellingWord[], mode: 'merge' | 'replace') => void;
+  onSaveCustomList: (name: string, wordIds: string[]) => void;
+}
+
+const PREVIEW_LIMIT = 20;
+const FORMATS: WordListFormat[] = ['csv', 'tsv', 'json', 'txt'];
+
+// The text being imported and how to read it
+interface ImportSource {
+  text: string;
+  format: WordListFormat;
+  hasHeader: boolean;
+}
+
+function parseSource({ text, format, hasHeader }: ImportSource): { table: ParsedTable | null; error: string | null } {
+  if (!text.trim()) return { table: null, error: null };
+  try {
+    return { table: parseWordListText(text, format, hasHeader), error: null };
+  } catch (e) {
+    return { table: null, error: `Couldn't read this as ${FORMAT_LABELS[format]}.` };
+  }
+}
+
+// Identifies the columns, to tell when they change
+function getHeadersKey(table: ParsedTable | null): string {
+  return table?.headers.join('\u0000') ?? '';
+}
+
+export function WordImportExport({ words, customLists, onImportWords, onSaveCustomList }: WordImportExportProps) {
+  // Import state
+  const [source, setSource] = useState<'file' | 'paste'>('file');
+  const [rawText, setRawText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<WordListFormat>('csv');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({ word: 0, alternateSpelling: null, difficulty: null });
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [listName, setListName] = useState('');
+
+  // Export state
+  const [exportTarget, setExportTarget] = useState('bank');
+  const [exportFormat, setExportFormat] = useState<WordListFormat>('csv');
+
+  const parsed = useMemo(() => parseSource({ text: rawText, format, hasHeader }), [rawText, format, hasHeader]);
+
+  // Change the text or how it's read, re-guessing the column mapping when the columns change
+  const updateSource = (changes: Partial<ImportSource>) => {
+    const next: ImportSource = { text: rawText, format, hasHeader, ...changes };
+    const { table } = parseSource(next);
+    if (table && getHeadersKey(table) !== getHeadersKey(parsed.table)) {
+      setMapping(guessColumnMapping(table.headers));
+    }
+    setRawText(next.text);
+    setFormat(next.format);
+    setHasHeader(next.hasHeader);
+  };
+
+  const importRows = useMemo(() => {
+    if (!parsed.table) return [];
+    return mapRowsToWords(parsed.table, mapping, importMode === 'replace' ? [] : words);
+  }, [parsed.table, mapping, words, importMode]);
+
+  const duplicateCount = importRows.filter(r => r.isDuplicate).length;
+  const newCount = importRows.length - duplicateCount;
+
+  const handleLoadText = (text: string, name?: string) => {
+    setFileName(name || '');
+    updateSource({ text, format: detectFormat(text, name) });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => handleLoadText(String(reader.result || ''), file.name);
+    reader.readAsText(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  // Guess the format when text is first pasted; after that, keep the format
+  // (which may have been picked by hand) while the text is edited
+  const handlePasteChange = (text: string) => {
+    if (rawText.trim()) {
+      updateSource({ text });
+    } else {
+      handleLoadText(text);
+    }
+  };
+
+  const handleClear = () => {
+    setRawText('');
+    setFileName('');
+    setListName('');
+  };
+
+  const handleImport = () => {
+    if (importRows.length === 0) return;
+
+    // In replace mode, repeated words within the file are still dropped
+    const wordsToImport = importRows.filter(r => !r.isDuplicate).map(r => withWordId(r.word));
+
+    if (importMode === 'replace' && !window.confirm(
+      `Replace all ${words.length} words with the ${wordsToImport.length} imported words? Custom lists may lose words that are no longer in the bank.`
+    )) {
+      return;
+    }
+
+    onImportWords(wordsToImport, importMode);
+
+    if (listName.trim()) {
+      // The list includes duplicates too, under the id they already have
+      const ids = new Map((importMode === 'replace' ? [] : words).map(w => [getWordKey(w), w.id]));
+      wordsToImport.forEach(w => ids.set(getWordKey(w), w.id));
+      const wordIds = importRows.map(r => ids.get(getWordKey(r.word))).filter((id): id is string => !!id);
+      onSaveCustomList(listName.trim(), Array.from(new Set(wordIds)));
+    }
+
+    alert(`Imported ${wordsToImport.length} word${wordsToImport.length !== 1 ? 's' : ''}${listName.trim() ? ` and saved the "${listName.trim()}" list` : ''}!`);
+    handleClear();
+  };
+
+  const handleExport = () => {
+    let exportWords = words;
+    let name = 'word-bank';
+    let exportListName: string | undefined;
+
+    if (exportTarget.startsWith('list:')) {
+      const list = customLists.find(l => l.name === exportTarget.slice('list:'.length));
+      if (!list) return;
+      exportWords = resolveListWords(list, words).words;
+      name = list.name;
+      exportListName = list.name;
+    }
+
+    downloadTextFile(
+      `${toFileName(name)}.${exportFormat}`,
+      exportWordList(exportWords, exportFormat, exportListName),
+      getMimeType(exportFormat)
+    );
+  };
+
+  const columnOptions = parsed.table?.headers.map((header, i) => (
+    <option key={i} value={i}>{header}</option>
+  ));
+
+  return (
+    <div className="space-y-6">
+      {/* Import */}
+      <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-4">
+        <h3 className="font-semibold text-[#1A1A2E] flex items-center gap-2">
+          <Upload className="w-4 h-4 text-[#D4941C]" />
+          Import Words
+        </h3>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => setSource('file')}
+            variant={source === 'file' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+          >
+            <FileText className="w-4 h-4" />
+            Upload File
+          </Button>
+          <Button
+            onClick={() => setSource('paste')}
+            variant={source === 'paste' ? 'default' : 'outline'}
+            size="sm"
+            className="gap-2"
+          >
+            <ClipboardPaste className="w-4 h-4" />
+            Paste
+          </Button>
+        </div>
+
+        {source === 'file' ? (
+          <div>
+            <input
+              type="file"
+              accept=".csv,.tsv,.json,.txt,text/csv,text/plain,application/json"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-[#1A1A2E] file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-[#F4B942] file:text-[#1A1A2E] file:font-medium"
+            />
+            {fileName && <p className="text-xs text-gray-500 mt-1">Loaded {fileName}</p>}
+          </div>
+        ) : (
+          <textarea
+            value={rawText}
+            onChange={(e) => handlePasteChange(e.target.value)}
+            placeholder={'Paste words here, one per line, or copy cells from a spreadsheet'}
+            rows={6}
+            className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white font-mono text-sm"
+          />
+        )}
+
+        {rawText.trim() && (
+          <>
+            {/* Format & Columns */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm text-[#1A1A2E]">
+                Format
+                <select
+                  value={format}
+                  onChange={(e) => updateSource({ format: e.target.value as WordListFormat })}
+                  className="w-full mt-1 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                >
+                  {FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                </select>
+              </label>
+              {(format === 'csv' || format === 'tsv') && (
+                <label className="text-sm text-[#1A1A2E] flex items-center gap-2 md:mt-6">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => updateSource({ hasHeader: e.target.checked })}
+                    className="accent-[#F4B942]"
+                  />
+                  First row is a header
+                </label>
+              )}
+            </div>
+
+            {parsed.error && (
+              <p className="text-sm text-red-600 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {parsed.error}
+              </p>
+            )}
+
+            {parsed.table && parsed.table.headers.length > 1 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <label className="text-sm text-[#1A1A2E]">
+                  Word column
+                  <select
+                    value={mapping.word}
+                    onChange={(e) => setMapping({ ...mapping, word: parseInt(e.target.value) })}
+                    className="w-full mt-1 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                  >
+                    {columnOptions}
+                  </select>
+                </label>
+                <label className="text-sm text-[#1A1A2E]">
+                  Alternate spelling column
+                  <select
+                    value={mapping.alternateSpelling ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, alternateSpelling: e.target.value === '' ? null : parseInt(e.target.value) })}
+                    className="w-full mt-1 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                  >
+                    <option value="">None</option>
+                    {columnOptions}
+                  </select>
+                </label>
+                <label className="text-sm text-[#1A1A2E]">
+                  Difficulty column
+                  <select
+                    value={mapping.difficulty ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, difficulty: e.target.value === '' ? null : parseInt(e.target.value) })}
+                    className="w-full mt-1 p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                  >
+                    <option value="">None (estimate it)</option>
+                    {columnOptions}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            {/* Preview */}
+            {importRows.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="bg-green-100 text-green-700 px-3 py-1 rounded-full">
+                    {newCount} new
+                  </span>
+                  {duplicateCount > 0 && (
+                    <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-full">
+                      {duplicateCount} duplicate{duplicateCount !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </div>
+                <div className="max-h-64 overflow-y-auto rounded-xl border border-gray-200 bg-white">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-[#1A1A2E]/70">
+                      <tr>
+                        <th className="p-2">Word</th>
+                        <th className="p-2">Alternate</th>
+                        <th className="p-2">Difficulty</th>
+                        <th className="p-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importRows.slice(0, PREVIEW_LIMIT).map((row, i) => (
+                        <tr key={i} className={cn('border-t border-gray-100', row.isDuplicate && 'bg-orange-50')}>
+                          <td className="p-2 font-medium text-[#1A1A2E]">{row.word.word}</td>
+                          <td className="p-2 text-gray-500">{row.word.alternateSpelling || '—'}</td>
+                          <td
+                            className={cn('p-2', row.difficultyGuessed && 'text-gray-400 italic')}
+                            title={row.difficultyGuessed ? 'Estimated from the word' : undefined}
+                          >
+                            {getDifficultyLabel(row.word.difficulty)}
+                          </td>
+                          <td className="p-2 text-xs text-orange-600">{row.isDuplicate ? 'Duplicate' : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {importRows.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-gray-500 p-2 text-center">
+                      +{importRows.length - PREVIEW_LIMIT} more rows
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Merge or Replace */}
+            <div className="space-y-2">
+              <label className="flex items-start gap-2 text-sm text-[#1A1A2E]">
+                <input
+                  type="radio"
+                  checked={importMode === 'merge'}
+                  onChange={() => setImportMode('merge')}
+                  className="accent-[#F4B942] mt-1"
+                />
+                <span>
+                  <strong>Merge</strong>: add {newCount} new word{newCount !== 1 ? 's' : ''} and skip duplicates
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm text-[#1A1A2E]">
+                <input
+                  type="radio"
+                  checked={importMode === 'replace'}
+                  onChange={() => setImportMode('replace')}
+                  className="accent-[#F4B942] mt-1"
+                />
+                <span>
+                  <strong>Replace</strong>: swap all {words.length} words for the imported ones
+                </span>
+              </label>
+            </div>
+
+            <input
+              type="text"
+              placeholder="Also save as a custom list (optional list name)"
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+            />
+
+            <div className="flex gap-3">
+              <Button onClick={handleImport} disabled={importRows.length === 0} className="gap-2">
+                <Upload className="w-4 h-4" />
+                Import {importRows.length} Word{importRows.length !== 1 ? 's' : ''}
+              </Button>
+              <Button onClick={handleClear} variant="outline">
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Export */}
+      <div className="bg-[#FEF9EF] rounded-xl p-4 space-y-3">
+        <h3 className="font-semibold text-[#1A1A2E] flex items-center gap-2">
+          <Download className="w-4 h-4 text-[#D4941C]" />
+          Export Words
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <select
+            value={exportTarget}
+            onChange={(e) => setExportTarget(e.target.value)}
+            className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+          >
+            <option value="bank">Whole word bank ({words.length})</option>
+            {customLists.map((list) => (
+              <option key={list.name} value={`list:${list.name}`}>
+                {list.name} ({resolveListWords(list, words).words.length})
+              </option>
+            ))}
+          </select>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as WordListFormat)}
+            className="p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+          >
+            {FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+          </select>
+          <Button onClick={handleExport} className="gap-2">
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
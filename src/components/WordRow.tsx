@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Edit2, Trash2, Check, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { SpellingWord, NewSpellingWord, getDifficultyLabel } from '../data/words';
+import { cn } from '../lib/utils';
+
+interface WordRowProps {
+  word: SpellingWord;
+  stats: React.ReactNode;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onSave: (changes: NewSpellingWord) => boolean; // false keeps the editor open, e.g. for a duplicate
+  onRemove: () => void;
+}
+
+// One word in the Settings word list, editable in place
+export function WordRow({ word, stats, isSelected, onToggleSelected, onSave, onRemove }: WordRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(word.word);
+  const [alternate, setAlternate] = useState(word.alternateSpelling ?? '');
+  const [difficulty, setDifficulty] = useState(word.difficulty);
+
+  const handleStartEdit = () => {
+    setText(word.word);
+    setAlternate(word.alternateSpelling ?? '');
+    setDifficulty(word.difficulty);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!text.trim()) return;
+    const saved = onSave({
+      word: text.trim(),
+      alternateSpelling: alternate.trim() || undefined,
+      difficulty,
+    });
+    if (saved) setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') handleSave();
+    if (e.key === 'Escape') setIsEditing(false);
+  };
+
+  return (
+    <div className={cn(
+      "flex items-center gap-3 p-3 bg-white rounded-xl border transition-colors",
+      isSelected ? "border-[#F4B942]" : "border-gray-200 hover:border-[#F4B942]/50"
+    )}>
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={onToggleSelected}
+        aria-label={`Select ${word.word}`}
+        className="w-5 h-5 accent-[#F4B942] shrink-0"
+      />
+
+      {isEditing ? (
+        <>
+          <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={handleKeyDown}
+              aria-label="Word"
+              autoFocus
+              className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+            />
+            <input
+              type="text"
+              placeholder="Alternate spelling"
+              value={alternate}
+              onChange={(e) => setAlternate(e.target.value)}
+              onKeyDown={handleKeyDown}
+              aria-label="Alternate spelling"
+              className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+            />
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(parseInt(e.target.value) as 1 | 2 | 3)}
+              aria-label="Difficulty"
+              className="p-2 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+            >
+              <option value={1}>Easy</option>
+              <option value={2}>Medium</option>
+              <option value={3}>Hard</option>
+            </select>
+          </div>
+          <Button onClick={handleSave} disabled={!text.trim()} variant="ghost" size="sm" title="Save">
+            <Check className="w-4 h-4 text-green-600" />
+          </Button>
+          <Button onClick={() => setIsEditing(false)} variant="ghost" size="sm" title="Cancel">
+            <X className="w-4 h-4" />
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="flex-1 flex items-center gap-4 flex-wrap">
+            <span className="font-medium text-[#1A1A2E]">{word.word}</span>
+            {word.alternateSpelling && (
+              <span className="text-sm text-gray-500">
+                (alt: {word.alternateSpelling})
+              </span>
+            )}
+            <span className={cn(
+              'text-xs font-medium px-2 py-1 rounded-full',
+              word.difficulty === 1 && 'bg-green-100 text-green-700',
+              word.difficulty === 2 && 'bg-yellow-100 text-yellow-700',
+              word.difficulty === 3 && 'bg-red-100 text-red-700',
+            )}>
+              {getDifficultyLabel(word.difficulty)}
+            </span>
+            {stats}
+          </div>
+          <Button onClick={handleStartEdit} variant="ghost" size="sm" title="Edit word">
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={onRemove}
+            variant="ghost"
+            size="sm"
+            title="Delete word"
+            className="text-red-500 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
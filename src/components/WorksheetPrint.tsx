@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from './ui/button';
+import { ArrowLeft, Printer, Shuffle, Loader2, Settings2 } from 'lucide-react';
+import { CustomWordList } from '../hooks/useSettings';
+import { SpellingWord } from '../data/words';
+import { WordListRoute } from '../data/routes';
+import {
+  WorksheetSettings,
+  WorksheetFontSize,
+  BLANK,
+  buildWorksheet,
+  createSeed,
+} from '../data/worksheet';
+import { CachedWordData, getCachedWord, prefetchWords } from '../services/dictionaryApi';
+import { cn } from '../lib/utils';
+
+interface WorksheetPrintProps {
+  list: WordListRoute;
+  listName: string;
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  settings: WorksheetSettings;
+  onChangeSettings: (settings: WorksheetSettings) => void;
+  onChangeList: (list: WordListRoute) => void;
+  onBack: () => void;
+}
+
+const FONT_SIZES: { id: WorksheetFontSize; name: string; className: string }[] = [
+  { id: 'small', name: 'Small', className: 'text-sm' },
+  { id: 'medium', name: 'Medium', className: 'text-base' },
+  { id: 'large', name: 'Large', className: 'text-xl' },
+];
+
+const COLUMN_CLASSES = { 1: 'columns-1', 2: 'columns-2', 3: 'columns-3' };
+
+// The list picker's option values
+function getListValue(list: WordListRoute): string {
+  switch (list.type) {
+    case 'preset': return String(list.difficulty);
+    case 'due': return 'due';
+    case 'custom': return `list:${list.name}`;
+  }
+}
+
+function parseListValue(value: string): WordListRoute {
+  if (value === 'due') return { type: 'due' };
+  if (value.startsWith('list:')) return { type: 'custom', name: value.slice('list:'.length) };
+  return { type: 'preset', difficulty: value === 'all' ? 'all' : (Number(value) as 1 | 2 | 3) };
+}
+
+// Dictionary entries already on this device
+function getKnownEntries(words: SpellingWord[]): Map<string, CachedWordData> {
+  const entries = new Map<string, CachedWordData>();
+  words.forEach(w => {
+    const data = getCachedWord(w.word);
+    if (data) entries.set(w.word.toLowerCase(), data);
+  });
+  return entries;
+}
+
+// Printable spelling test and answer key for any list
+export function WorksheetPrint({
+  list,
+  listName,
+  words,
+  customLists,
+  settings,
+  onChangeSettings,
+  onChangeList,
+  onBack,
+}: WorksheetPrintProps) {
+  const [seed, setSeed] = useState(createSeed);
+  const [dictionary, setDictionary] = useState<Map<string, CachedWordData>>(new Map());
+  const [isLoadingClues, setIsLoadingClues] = useState(false);
+  const needsClues = settings.showDefinitions || settings.showExamples;
+
+  // Look up definitions and examples only when they're going on the sheet
+  useEffect(() => {
+    if (!needsClues) {
+      // A lookup cancelled when clues were turned off can't clear this itself
+      setIsLoadingClues(false);
+      return;
+    }
+    let cancelled = false;
+    setDictionary(getKnownEntries(words));
+    setIsLoadingClues(true);
+    prefetchWords(words.map(w => w.word)).then(() => {
+      if (cancelled) return;
+      setDictionary(getKnownEntries(words));
+      setIsLoadingClues(false);
+    });
+    return () => { cancelled = true; };
+  }, [words, needsClues]);
+
+  const items = useMemo(() => buildWorksheet(words, seed, dictionary), [words, seed, dictionary]);
+  const fontClass = FONT_SIZES.find(f => f.id === settings.fontSize)?.className ?? 'text-base';
+  const columnClass = COLUMN_CLASSES[settings.columns];
+
+  const updateSettings = (changes: Partial<WorksheetSettings>) => {
+    onChangeSettings({ ...settings, ...changes });
+  };
+
+  const handleSeedChange = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!isNaN(parsed) && parsed >= 0) setSeed(parsed);
+  };
+
+  const sheetHeader = (title: string) => (
+    <div className="flex items-end justify-between gap-4 border-b-2 border-[#1A1A2E] pb-2 mb-6">
+      <div>
+        <h2 className="text-2xl font-bold text-[#1A1A2E]">{title}</h2>
+        <p className="text-sm text-gray-500">{listName} · Sheet {seed}</p>
+      </div>
+      <div className="text-sm text-[#1A1A2E] space-y-2 text-right">
+        <p>Name: ____________________</p>
+        <p>Date: ____________</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-[#FEF9EF] via-[#FFF8E7] to-[#FEF3C7] print:bg-none print:bg-white">
+      {/* Header */}
+      <header className="bg-white/50 backdrop-blur-sm border-b border-[#F4B942]/20 p-4 print:hidden">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button onClick={onBack} variant="ghost" size="sm" className="gap-2 text-[#1A1A2E]">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-xl font-bold text-[#1A1A2E] flex-1">Print a Worksheet</h1>
+          <Button onClick={() => window.print()} disabled={words.length === 0 || isLoadingClues} className="gap-2">
+            <Printer className="w-4 h-4" />
+            Print
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 md:p-8 space-y-6 print:p-0 print:max-w-none">
+        {/* Options */}
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-[#F4B942]/20 print:hidden">
+          <h2 className="text-xl font-bold text-[#1A1A2E] mb-6 flex items-center gap-2">
+            <Settings2 className="w-5 h-5 text-[#D4941C]" />
+            Worksheet Options
+          </h2>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[#1A1A2E]">Word list</label>
+              <select
+                value={getListValue(list)}
+                onChange={(e) => onChangeList(parseListValue(e.target.value))}
+                className="w-full p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+              >
+                <option value="all">All Words</option>
+                <option value="1">Easy</option>
+                <option value="2">Medium</option>
+                <option value="3">Hard</option>
+                <option value="due">Due Today</option>
+                {customLists.map(l => (
+                  <option key={l.name} value={`list:${l.name}`}>{l.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[#1A1A2E]">Sheet number</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  value={seed}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                  className="flex-1 min-w-0 p-3 border-2 border-gray-200 rounded-xl focus:border-[#F4B942] focus:outline-none bg-white"
+                />
+                <Button onClick={() => setSeed(createSeed())} variant="outline" className="gap-2 h-auto">
+                  <Shuffle className="w-4 h-4" />
+                  New Order
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">The same number always gives the same word order.</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[#1A1A2E]">Columns</label>
+              <div className="flex gap-2">
+                {([1, 2, 3] as const).map(columns => (
+                  <Button
+                    key={columns}
+                    onClick={() => updateSettings({ columns })}
+                    variant={settings.columns === columns ? 'default' : 'outline'}
+                    className="flex-1"
+                  >
+                    {columns}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-[#1A1A2E]">Font size</label>
+              <div className="flex gap-2">
+                {FONT_SIZES.map(size => (
+                  <Button
+                    key={size.id}
+                    onClick={() => updateSettings({ fontSize: size.id })}
+                    variant={settings.fontSize === size.id ? 'default' : 'outline'}
+                    className="flex-1"
+                  >
+                    {size.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3 md:col-span-2">
+              <label className="flex items-center gap-3 text-[#1A1A2E]">
+                <input
+                  type="checkbox"
+                  checked={settings.showDefinitions}
+                  onChange={(e) => updateSettings({ showDefinitions: e.target.checked })}
+                  className="w-5 h-5 accent-[#F4B942]"
+                />
+                <span className="font-medium">Include definitions</span>
+              </label>
+              <label className="flex items-center gap-3 text-[#1A1A2E]">
+                <input
+                  type="checkbox"
+                  checked={settings.showExamples}
+                  onChange={(e) => updateSettings({ showExamples: e.target.checked })}
+                  className="w-5 h-5 accent-[#F4B942]"
+                />
+                <span className="font-medium">Include example sentences</span>
+              </label>
+              {isLoadingClues && (
+                <p className="flex items-center gap-2 text-sm text-[#1A1A2E]/70">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Looking up definitions...
+                </p>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {words.length === 0 ? (
+          <div className="text-center p-6 bg-white/50 rounded-2xl border border-dashed border-[#F4B942]/40 print:hidden">
+            <p className="text-[#1A1A2E]/60">This list has no words to print.</p>
+          </div>
+        ) : (
+          <>
+            {/* Test sheet */}
+            <article className={cn("bg-white rounded-2xl shadow-lg p-8 print:shadow-none print:rounded-none print:p-0", fontClass)}>
+              {sheetHeader('Spelling Test')}
+              <ol className={cn(columnClass, "gap-8")}>
+                {items.map(item => (
+                  <li key={item.word.word} className="break-inside-avoid mb-5 text-[#1A1A2E]">
+                    <div className="flex items-end gap-2">
+                      <span className="font-bold w-8 shrink-0">{item.number}.</span>
+                      <span className="flex-1 border-b border-gray-400 h-8" />
+                    </div>
+                    {settings.showDefinitions && item.definition && (
+                      <p className="ml-10 mt-1 text-[0.85em] text-gray-700">{item.definition}</p>
+                    )}
+                    {settings.showExamples && item.example && (
+                      <p className="ml-10 mt-1 text-[0.85em] text-gray-700 italic">"{item.example}"</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </article>
+
+            {/* Answer key, on its own page */}
+            <article className={cn("bg-white rounded-2xl shadow-lg p-8 break-before-page print:shadow-none print:rounded-none print:p-0", fontClass)}>
+              {sheetHeader('Answer Key')}
+              <ol className={cn(columnClass, "gap-8")}>
+                {items.map(item => (
+                  <li key={item.word.word} className="break-inside-avoid mb-2 flex gap-2 text-[#1A1A2E]">
+                    <span className="font-bold w-8 shrink-0">{item.number}.</span>
+                    <span>
+                      {item.word.word}
+                      {item.word.alternateSpelling && (
+                        <span className="text-gray-500"> (or {item.word.alternateSpelling})</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </article>
+
+            {needsClues && (
+              <p className="text-xs text-gray-500 text-center print:hidden">
+                Clues show {BLANK} where the word would give the answer away.
+              </p>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
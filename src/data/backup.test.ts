@@ -0,0 +1,96 @@
+import { parseBackup, BACKUP_VERSION } from './backup';
+import { DEFAULT_WORKSHEET_SETTINGS } from './worksheet';
+import { DEFAULT_QUIZ_SETUP } from './quizSetup';
+
+function backupText(changes: Record<string, unknown>): string {
+  return JSON.stringify({
+    app: 'spelling-bee',
+    version: BACKUP_VERSION,
+    createdAt: 0,
+    profileName: 'Sam',
+    settings: {},
+    words: [{ id: 'a', word: 'cat', difficulty: 1 }],
+    customLists: [],
+    highScore: null,
+    dictionaryOverrides: {},
+    ...changes,
+  });
+}
+
+test('reads a current backup', () => {
+  const { backup, error } = parseBackup(backupText({}));
+  expect(error).toBeNull();
+  expect(backup?.words).toEqual([{ id: 'a', word: 'cat', difficulty: 1 }]);
+});
+
+test('rejects files that are not backups', () => {
+  expect(parseBackup('not json').error).toMatch(/not valid JSON/);
+  expect(parseBackup('[]').error).toMatch(/not a Spelling Bee backup/);
+  expect(parseBackup(backupText({ app: 'other' })).error).toMatch(/not a Spelling Bee backup/);
+});
+
+test('rejects versions that are not whole numbers from 1', () => {
+  [0, -1, 1.5, '1', null].forEach(version => {
+    const { backup, error } = parseBackup(backupText({ version }));
+    expect(backup).toBeNull();
+    expect(error).toMatch(/not a Spelling Bee backup/);
+  });
+  expect(parseBackup(backupText({ version: BACKUP_VERSION + 1 })).error).toMatch(/newer version/);
+});
+
+test('reports damaged parts', () => {
+  expect(parseBackup(backupText({ settings: null })).error).toMatch(/settings are missing/);
+  expect(parseBackup(backupText({ words: [{ id: 'a', word: 'cat', difficulty: 4 }] })).error).toMatch(/word list/);
+  expect(parseBackup(backupText({ highScore: { score: 1 } })).error).toMatch(/high score/);
+});
+
+// Version 1: words had no ids and lists held word strings
+function v1BackupText(changes: Record<string, unknown>): string {
+  return backupText({
+    version: 1,
+    words: [{ word: 'cat', difficulty: 1 }, { word: 'Dog', difficulty: 2 }],
+    customLists: [{ name: 'Pets', wordIds: ['dog', 'cat', 'bird'], createdAt: 0 }],
+    ...changes,
+  });
+}
+
+test('gives version 1 words ids and points lists at them', () => {
+  const { backup, error } = parseBackup(v1BackupText({}));
+  expect(error).toBeNull();
+  const [cat, dog] = backup!.words;
+  expect(cat.id).toEqual(expect.any(String));
+  expect(dog.id).not.toBe(cat.id);
+  // "bird" matches no word, so it stays as a missing entry
+  expect(backup!.customLists[0].wordIds).toEqual([dog.id, cat.id, 'bird']);
+  expect(backup!.version).toBe(BACKUP_VERSION);
+});
+
+test('reports damaged version 1 backups instead of throwing', () => {
+  expect(parseBackup(v1BackupText({ words: [{ foo: 1 }] })).error).toMatch(/word list/);
+  expect(parseBackup(v1BackupText({ words: 'cat' })).error).toMatch(/word list/);
+  expect(parseBackup(v1BackupText({ customLists: [{ name: 'Pets' }] })).error).toMatch(/custom lists/);
+  expect(parseBackup(v1BackupText({ customLists: [{ name: 'Pets', wordIds: [1] }] })).error).toMatch(/custom lists/);
+});
+
+test('requires a profile name and date', () => {
+  expect(parseBackup(backupText({ profileName: undefined })).error).toMatch(/profile name or date/);
+  expect(parseBackup(backupText({ createdAt: 'yesterday' })).error).toMatch(/profile name or date/);
+});
+
+test('drops settings of the wrong type so they fall back to defaults', () => {
+  const { backup } = parseBackup(backupText({
+    settings: {
+      speechRate: 1.2,
+      quizMode: 'shouted',
+      timeLimitSeconds: -5,
+      unknownSetting: true,
+      worksheet: { columns: 9, showExamples: true },
+      quizSetup: { difficultyMix: 'x', order: 'weakest' },
+    },
+  }));
+  expect(backup?.settings).toEqual({
+    speechRate: 1.2,
+    worksheet: { ...DEFAULT_WORKSHEET_SETTINGS, showExamples: true },
+    quizSetup: { ...DEFAULT_QUIZ_SETUP, order: 'weakest' },
+  });
+});
@@ -0,0 +1,256 @@
+// Whole-app backup files: create, validate, migrate and compare
+
+import { SpellingWord, getWordKey } from './words';
+import { AppSettings, CustomWordList } from '../hooks/useSettings';
+import { DictionaryOverride } from '../services/dictionaryProviders';
+import { LegacyWord, migrateToWordIds, resolveListWords } from './customLists';
+import { WorksheetSettings, DEFAULT_WORKSHEET_SETTINGS } from './worksheet';
+import { QuizSetupOptions, DEFAULT_QUIZ_SETUP, WORD_ORDER_LABELS } from './quizSetup';
+
+export interface HighScore {
+  score: number;
+  total: number;
+}
+
+export interface BackupData {
+  app: 'spelling-bee';
+  version: number;
+  createdAt: number;
+  profileName: string;
+  settings: Partial<AppSettings>;
+  words: SpellingWord[];
+  customLists: CustomWordList[];
+  highScore: HighScore | null;
+  dictionaryOverrides: Record<string, DictionaryOverride>;
+}
+
+type BackupRecord = Record<string, unknown>;
+
+// Each step upgrades a backup by one version (index 0 turns version 1 into 2, ...).
+// The current version is one more than the number of steps. A step leaves
+// data it can't read alone, for validate() to report.
+const MIGRATIONS: ((backup: BackupRecord) => BackupRecord)[] = [
+  // 2: words have ids and custom lists refer to them by id
+  (backup) => {
+    const { words, customLists } = backup;
+    if (!Array.isArray(words) || !words.every(isLegacyWord)) return backup;
+    const lists = Array.isArray(customLists) && customLists.every(isCustomList)
+      ? new Map([['backup', customLists]])
+      : new Map<string, CustomWordList[]>();
+    const migrated = migrateToWordIds(new Map([['backup', words]]), lists);
+    return {
+      ...backup,
+      words: migrated.banks.get('backup'),
+      customLists: migrated.lists.get('backup') ?? customLists,
+    };
+  },
+];
+
+export const BACKUP_VERSION = MIGRATIONS.length + 1;
+
+export function createBackup(data: Omit<BackupData, 'app' | 'version' | 'createdAt'>): BackupData {
+  return {
+    app: 'spelling-bee',
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    ...data,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A word from before ids; only what the migration reads is checked here
+function isLegacyWord(value: unknown): value is LegacyWord {
+  return isObject(value)
+    && typeof value.word === 'string'
+    && (value.id === undefined || typeof value.id === 'string');
+}
+
+function isWord(value: unknown): value is SpellingWord {
+  return isObject(value)
+    && typeof value.id === 'string'
+    && typeof value.word === 'string'
+    && value.word.trim() !== ''
+    && (value.difficulty === 1 || value.difficulty === 2 || value.difficulty === 3)
+    && (value.alternateSpelling === undefined || typeof value.alternateSpelling === 'string');
+}
+
+function isCustomList(value: unknown): value is CustomWordList {
+  return isObject(value)
+    && typeof value.name === 'string'
+    && Array.isArray(value.wordIds)
+    && value.wordIds.every((id: unknown) => typeof id === 'string');
+}
+
+function isOverride(value: unknown): value is DictionaryOverride {
+  return isObject(value) && typeof value.definition === 'string';
+}
+
+type Check = (value: unknown) => boolean;
+
+const isBoolean: Check = value => typeof value === 'boolean';
+const isString: Check = value => typeof value === 'string';
+const isCount: Check = value => typeof value === 'number' && Number.isInteger(value) && value > 0;
+const isNumberFrom = (min: number, max: number): Check =>
+  value => typeof value === 'number' && value >= min && value <= max;
+const isOneOf = (...options: unknown[]): Check => value => options.includes(value);
+
+// Nested settings objects are checked field by field below
+const SETTING_CHECKS: Record<Exclude<keyof AppSettings, 'worksheet' | 'quizSetup'>, Check> = {
+  speechRate: isNumberFrom(0.5, 2),
+  speechVoice: isString,
+  preferRecordedAudio: isBoolean,
+  quizMode: isOneOf('paper', 'typed', 'spoken'),
+  timerEnabled: isBoolean,
+  timeLimitSeconds: isCount,
+  timeoutAction: isOneOf('miss', 'skip'),
+  adaptiveQuizLength: isCount,
+};
+
+const WORKSHEET_CHECKS: Record<keyof WorksheetSettings, Check> = {
+  columns: isOneOf(1, 2, 3),
+  fontSize: isOneOf('small', 'medium', 'large'),
+  showDefinitions: isBoolean,
+  showExamples: isBoolean,
+};
+
+const QUIZ_SETUP_CHECKS: Record<keyof QuizSetupOptions, Check> = {
+  wordCount: value => value === null || isCount(value),
+  sample: isBoolean,
+  order: isOneOf(...Object.keys(WORD_ORDER_LABELS)),
+  includeAlternates: isBoolean,
+  difficultyMix: value => value === null || (Array.isArray(value)
+    && value.length === 3
+    && value.every(share => typeof share === 'number' && share >= 0 && share <= 100)),
+};
+
+function pickValid(record: Record<string, unknown>, checks: Record<string, Check>): Record<string, unknown> {
+  const valid: Record<string, unknown> = {};
+  Object.entries(checks).forEach(([key, check]) => {
+    if (check(record[key])) valid[key] = record[key];
+  });
+  return valid;
+}
+
+// Keep the settings that have the right type. The rest (and any the app
+// doesn't know) are dropped, so restoring falls back to their defaults.
+function readSettings(settings: Record<string, unknown>): Partial<AppSettings> {
+  const valid: Partial<AppSettings> = pickValid(settings, SETTING_CHECKS);
+  if (isObject(settings.worksheet)) {
+    valid.worksheet = { ...DEFAULT_WORKSHEET_SETTINGS, ...pickValid(settings.worksheet, WORKSHEET_CHECKS) };
+  }
+  if (isObject(settings.quizSetup)) {
+    valid.quizSetup = { ...DEFAULT_QUIZ_SETUP, ...pickValid(settings.quizSetup, QUIZ_SETUP_CHECKS) };
+  }
+  return valid;
+}
+
+// Find what's wrong with a (migrated) backup, or null if it's usable
+function validate(backup: BackupRecord): string | null {
+  const { profileName, createdAt, settings, words, customLists, highScore, dictionaryOverrides } = backup;
+  if (typeof profileName !== 'string' || typeof createdAt !== 'number' || !Number.isFinite(createdAt)) {
+    return 'The profile name or date is missing.';
+  }
+  if (!isObject(settings)) return 'The settings are missing.';
+  if (!Array.isArray(words) || !words.every(isWord)) return 'The word list is missing or damaged.';
+  if (!Array.isArray(customLists) || !customLists.every(isCustomList)) return 'The custom lists are damaged.';
+  if (highScore !== null && !(isObject(highScore)
+    && typeof highScore.score === 'number'
+    && typeof highScore.total === 'number')) {
+    return 'The high score is damaged.';
+  }
+  if (!isObject(dictionaryOverrides) || !Object.values(dictionaryOverrides).every(isOverride)) {
+    return 'The saved definitions are damaged.';
+  }
+  return null;
+}
+
+// Read a backup file, bringing older versions up to date
+export function parseBackup(text: string): { backup: BackupData | null; error: string | null } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { backup: null, error: 'This file is not a backup (it is not valid JSON).' };
+  }
+
+  const version = isObject(data) ? data.version : undefined;
+  if (!isObject(data) || data.app !== 'spelling-bee' || typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { backup: null, error: 'This file is not a Spelling Bee backup.' };
+  }
+  if (version > BACKUP_VERSION) {
+    return { backup: null, error: 'This backup was made by a newer version of the app. Please update first.' };
+  }
+
+  let migrated: BackupRecord = data;
+  for (let step = version; step < BACKUP_VERSION; step++) {
+    migrated = MIGRATIONS[step - 1](migrated);
+  }
+  migrated = { ...migrated, version: BACKUP_VERSION };
+
+  const error = validate(migrated);
+  if (error) return { backup: null, error: `This backup can't be restored. ${error}` };
+  const backup = migrated as unknown as BackupData;
+  return { backup: { ...backup, settings: readSettings(migrated.settings as Record<string, unknown>) }, error: null };
+}
+
+export interface CountDiff {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface BackupDiff {
+  words: CountDiff;
+  customLists: CountDiff;
+  dictionaryOverrides: CountDiff;
+  settingsChanged: (keyof AppSettings)[];
+  highScore: { current: HighScore | null; restored: HighScore | null };
+}
+
+// Compare two keyed collections
+function diffRecords<T>(current: Map<string, T>, restored: Map<string, T>): CountDiff {
+  let added = 0;
+  let changed = 0;
+  restored.forEach((value, key) => {
+    if (!current.has(key)) {
+      added++;
+    } else if (JSON.stringify(current.get(key)) !== JSON.stringify(value)) {
+      changed++;
+    }
+  });
+  const removed = Array.from(current.keys()).filter(key => !restored.has(key)).length;
+  return { added, removed, changed };
+}
+
+function getListKeys(list: CustomWordList, words: SpellingWord[]): string[] {
+  const { words: listWords, missingIds } = resolveListWords(list, words);
+  return [...listWords.map(getWordKey), ...missingIds];
+}
+
+// What restoring a backup would change
+export function diffBackup(current: BackupData, restored: BackupData): BackupDiff {
+  const settingsKeys = new Set([...Object.keys(current.settings), ...Object.keys(restored.settings)]) as Set<keyof AppSettings>;
+
+  return {
+    // Ids differ between devices, so compare words and lists by spelling
+    words: diffRecords(
+      new Map(current.words.map(({ id, ...w }) => [getWordKey(w), w])),
+      new Map(restored.words.map(({ id, ...w }) => [getWordKey(w), w]))
+    ),
+    customLists: diffRecords(
+      new Map(current.customLists.map(l => [l.name, getListKeys(l, current.words)])),
+      new Map(restored.customLists.map(l => [l.name, getListKeys(l, restored.words)]))
+    ),
+    dictionaryOverrides: diffRecords(
+      new Map(Object.entries(current.dictionaryOverrides)),
+      new Map(Object.entries(restored.dictionaryOverrides))
+    ),
+    settingsChanged: Array.from(settingsKeys).filter(
+      key => key in restored.settings && JSON.stringify(current.settings[key]) !== JSON.stringify(restored.settings[key])
+    ),
+    highScore: { current: current.highScore, restored: restored.highScore },
+  };
+}
@@ -0,0 +1,50 @@
+import { migrateToWordIds, remapLists, removeWordsFromLists, resolveListWords } from './customLists';
+import { SpellingWord } from './words';
+import { CustomWordList } from '../hooks/useSettings';
+
+const cat: SpellingWord = { id: 'c1', word: 'cat', difficulty: 1 };
+const dog: SpellingWord = { id: 'd1', word: 'dog', difficulty: 1 };
+
+function list(wordIds: string[]): CustomWordList {
+  return { name: 'Pets', wordIds, createdAt: 0 };
+}
+
+test('resolves list words in list order and reports missing ids', () => {
+  expect(resolveListWords(list(['d1', 'gone', 'c1']), [cat, dog])).toEqual({
+    words: [dog, cat],
+    missingIds: ['gone'],
+  });
+});
+
+test('removes deleted words from lists, leaving other lists untouched', () => {
+  const other = list(['d1']);
+  const [updated, unchanged] = removeWordsFromLists([list(['c1', 'd1']), other], new Set(['c1']));
+  expect(updated.wordIds).toEqual(['d1']);
+  expect(unchanged).toBe(other);
+});
+
+test('remaps lists onto a replaced bank by spelling', () => {
+  const newCat: SpellingWord = { id: 'c2', word: 'Cat', difficulty: 2 };
+  const [remapped] = remapLists([list(['c1', 'd1', 'gone'])], [cat, dog], [newCat]);
+  expect(remapped.wordIds).toEqual(['c2']);
+});
+
+test('migrates string lists to ids shared across banks', () => {
+  const { banks, lists } = migrateToWordIds(
+    new Map([
+      ['shared', [{ word: 'cat', difficulty: 1 }, { word: 'dog', difficulty: 1 }]],
+      ['sam', [{ word: 'Cat', difficulty: 2 }]],
+    ]),
+    new Map([['sam', [list(['CAT', 'dog', 'cat', 'bird'])]]])
+  );
+  const [sharedCat, sharedDog] = banks.get('shared')!;
+  const [samCat] = banks.get('sam')!;
+  expect(samCat.id).toBe(sharedCat.id);
+  // Duplicates collapse; entries that match no word are kept as missing
+  expect(lists.get('sam')![0].wordIds).toEqual([sharedCat.id, sharedDog.id, 'bird']);
+});
+
+test('keeps ids words already have', () => {
+  const { banks } = migrateToWordIds(new Map([['shared', [cat]]]), new Map());
+  expect(banks.get('shared')).toEqual([cat]);
+});
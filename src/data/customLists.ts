@@ -0,0 +1,86 @@
+// Custom lists refer to words by id, so editing a word doesn't drop it from
+// its lists. Ids can still go missing, e.g. when another profile sharing the
+// word bank deletes a word, so lists report what they couldn't find.
+
+import { SpellingWord, NewSpellingWord, getWordKey, createWordId } from './words';
+import { CustomWordList } from '../hooks/useSettings';
+
+export interface ResolvedList {
+  words: SpellingWord[]; // in list order
+  missingIds: string[]; // ids no longer in the word bank
+}
+
+export function resolveListWords(list: CustomWordList, words: SpellingWord[]): ResolvedList {
+  const byId = new Map(words.map(w => [w.id, w]));
+  const resolved: ResolvedList = { words: [], missingIds: [] };
+  list.wordIds.forEach(id => {
+    const word = byId.get(id);
+    if (word) {
+      resolved.words.push(word);
+    } else {
+      resolved.missingIds.push(id);
+    }
+  });
+  return resolved;
+}
+
+// Take deleted words out of every list
+export function removeWordsFromLists(lists: CustomWordList[], ids: Set<string>): CustomWordList[] {
+  return lists.map(list => list.wordIds.some(id => ids.has(id))
+    ? { ...list, wordIds: list.wordIds.filter(id => !ids.has(id)) }
+    : list);
+}
+
+// When the whole bank is replaced (reset or import), keep list entries whose
+// word is still there, matched by spelling, and drop the rest
+export function remapLists(
+  lists: CustomWordList[],
+  oldWords: SpellingWord[],
+  newWords: SpellingWord[]
+): CustomWordList[] {
+  const oldById = new Map(oldWords.map(w => [w.id, w]));
+  const newByKey = new Map(newWords.map(w => [getWordKey(w), w.id]));
+  return lists.map(list => ({
+    ...list,
+    wordIds: list.wordIds.flatMap(id => {
+      const word = oldById.get(id);
+      const newId = word && newByKey.get(getWordKey(word));
+      return newId ? [newId] : [];
+    }),
+  }));
+}
+
+// Words and lists from before ids: lists held word strings
+export type LegacyWord = NewSpellingWord & { id?: string };
+
+// Give every word an id and point lists at those ids. Words spelled the same
+// get the same id in every bank, so a list works with either a profile's own
+// bank or the shared one. List entries that match no word are kept (as
+// missing words) rather than dropped.
+export function migrateToWordIds(
+  banks: Map<string, LegacyWord[]>,
+  lists: Map<string, CustomWordList[]>
+): { banks: Map<string, SpellingWord[]>; lists: Map<string, CustomWordList[]> } {
+  const idsByKey = new Map<string, string>();
+  const getId = (word: LegacyWord): string => {
+    const key = getWordKey(word);
+    const id = word.id || idsByKey.get(key) || createWordId();
+    if (!idsByKey.has(key)) idsByKey.set(key, id);
+    return id;
+  };
+
+  const migratedBanks = new Map<string, SpellingWord[]>();
+  banks.forEach((words, key) => {
+    migratedBanks.set(key, words.map(word => ({ ...word, id: getId(word) })));
+  });
+
+  const migratedLists = new Map<string, CustomWordList[]>();
+  lists.forEach((profileLists, key) => {
+    migratedLists.set(key, profileLists.map(list => ({
+      ...list,
+      wordIds: Array.from(new Set(list.wordIds.map(entry => idsByKey.get(entry.toLowerCase()) ?? entry))),
+    })));
+  });
+
+  return { banks: migratedBanks, lists: migratedLists };
+}
@@ -0,0 +1,43 @@
+import { estimateDifficulty, countSyllables, findDifficultyChanges } from './difficultyEstimate';
+import { SpellingWord } from './words';
+
+test('counts syllables from vowel groups, ignoring a silent final e', () => {
+  expect(countSyllables('cat')).toBe(1);
+  expect(countSyllables('cake')).toBe(1);
+  expect(countSyllables('hopes')).toBe(1);
+  expect(countSyllables('jumped')).toBe(1);
+  expect(countSyllables('yellow')).toBe(2);
+  expect(countSyllables('banana')).toBe(3);
+  expect(countSyllables('necessary')).toBe(4);
+  expect(countSyllables('')).toBe(0);
+});
+
+test('cuts the score into Easy, Medium and Hard', () => {
+  expect(estimateDifficulty('cat')).toEqual({ difficulty: 1, score: 0, reasons: [] });
+  // Scores of 2 and 4.5 start the next level
+  expect(estimateDifficulty('because')).toMatchObject({ difficulty: 2, score: 2 });
+  expect(estimateDifficulty('knight')).toMatchObject({ difficulty: 2, reasons: ['silent first letter', 'silent gh'] });
+  expect(estimateDifficulty('necessary')).toMatchObject({
+    difficulty: 3,
+    reasons: ['9 letters', '4 syllables', 'double s'],
+  });
+});
+
+test('flags ie and ei, but not -ies and -ied endings', () => {
+  expect(estimateDifficulty('friend').reasons).toEqual(['unusual spelling (ei/ie)']);
+  expect(estimateDifficulty('receive').reasons).toEqual(['unusual spelling (ei/ie)']);
+  expect(estimateDifficulty('tried').reasons).toEqual([]);
+});
+
+test('checks accented words on their plain letters', () => {
+  expect(estimateDifficulty('café')).toEqual({ difficulty: 1, score: 1.5, reasons: ['accented letters'] });
+  expect(estimateDifficulty('protégé').score).toBe(estimateDifficulty('protege').score + 1.5);
+});
+
+test('finds words whose level differs from the estimate', () => {
+  const words: SpellingWord[] = [
+    { id: 'a', word: 'cat', difficulty: 1 },
+    { id: 'b', word: 'necessary', difficulty: 1 },
+  ];
+  expect(findDifficultyChanges(words).map(change => change.word.id)).toEqual(['b']);
+});
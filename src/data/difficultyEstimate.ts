@@ -0,0 +1,135 @@
+import { SpellingWord } from './words';
+
+// Guess how hard a word is to spell from what it looks like: length,
+// syllables and the spelling patterns that trip children up. Each feature
+// adds to a score, and the score is cut into Easy / Medium / Hard.
+
+export interface DifficultyEstimate {
+  difficulty: 1 | 2 | 3;
+  score: number;
+  reasons: string[]; // short, readable explanations of what made the word harder
+}
+
+interface Pattern {
+  pattern: RegExp;
+  label: string;
+}
+
+// Spellings that don't match how they sound, or that are rare in English
+const RARE_GRAPHEMES: Pattern[] = [
+  { pattern: /ough|augh/, label: 'ough/augh' },
+  { pattern: /eigh/, label: 'eigh' },
+  { pattern: /ph/, label: 'ph' },
+  { pattern: /ie(?![sd]$)|ei/, label: 'ei/ie' },
+  { pattern: /[^t]ure$|ous$/, label: 'unstressed ending' },
+  { pattern: /[aeiou]y[aeiou]|[^aeiou]y[^aeiou]/, label: 'y as a vowel' },
+  { pattern: /[aeiou]{3}/, label: 'three vowels together' },
+  { pattern: /(c|s|t)i[ao]/, label: 'sh sound' },
+  { pattern: /cc|sc[eiy]/, label: 'soft c' },
+  { pattern: /q|x|z/, label: 'rare letter' },
+];
+
+// Letters that are written but not said
+const SILENT_LETTERS: Pattern[] = [
+  { pattern: /^kn|^gn|^pn|^ps/, label: 'silent first letter' },
+  { pattern: /^wr|^rh|^wh/, label: 'silent h or w' },
+  { pattern: /mb$|mn$|bt/, label: 'silent b or n' },
+  { pattern: /igh|[^u]gh(?!t)/, label: 'silent gh' },
+  { pattern: /[aeiou]lk|[aeiou]lm$|ould/, label: 'silent l' },
+  { pattern: /stle$|sten$|tch/, label: 'silent t' },
+  { pattern: /gu[aeiy]|gue$/, label: 'silent u' },
+];
+
+// Letter groups borrowed from other languages (French, Greek, Italian, German...)
+const FOREIGN_CLUSTERS: Pattern[] = [
+  { pattern: /eau|eur$|oir|ette$|que$|ade$|age$/, label: 'French spelling' },
+  { pattern: /chr|chl|^ch[aeo]r|rrh|ps[aeiouy]|^x/, label: 'Greek spelling' },
+  { pattern: /zz|cci|cch|gli|ghe|ghi/, label: 'Italian spelling' },
+  { pattern: /sch|ei[sz]|aa|oo[^dklmnprt]/, label: 'Germanic spelling' },
+  { pattern: /ll[aeo]$|[aeiou]j[aeiou]/, label: 'Spanish spelling' },
+];
+
+const DOUBLED_CONSONANTS = /([bcdfghjklmnpqrstvwxz])\1/g;
+
+// Accents and other marks, once split from their letters by normalize('NFD')
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Score boundaries: below EASY_MAX is Easy, below MEDIUM_MAX is Medium
+const EASY_MAX = 2;
+const MEDIUM_MAX = 4.5;
+
+// Rough syllable count from vowel groups, ignoring a silent final e
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|[^ltd]ed|[^laeiouy]e)$/, match => match[0]) // hopes, jumped, cake
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+function matchPatterns(word: string, patterns: Pattern[]): string[] {
+  return patterns.filter(p => p.pattern.test(word)).map(p => p.label);
+}
+
+export function estimateDifficulty(text: string): DifficultyEstimate {
+  const word = text.trim().toLowerCase().normalize('NFD');
+  // Accented letters count as their plain letter, so "protégé" is checked as "protege"
+  const unaccented = word.replace(COMBINING_MARKS, '');
+  const letters = unaccented.replace(/[^a-z]/g, '');
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Length: short words are easy, each extra letter adds a little
+  score += Math.max(0, letters.length - 4) * 0.4;
+  if (letters.length >= 8) reasons.push(`${letters.length} letters`);
+
+  const syllables = countSyllables(letters);
+  score += Math.max(0, syllables - 1) * 0.8;
+  if (syllables >= 3) reasons.push(`${syllables} syllables`);
+
+  const rare = matchPatterns(letters, RARE_GRAPHEMES);
+  score += rare.length * 1;
+  reasons.push(...rare.map(label => `unusual spelling (${label})`));
+
+  const silent = matchPatterns(letters, SILENT_LETTERS);
+  score += silent.length * 1.5;
+  reasons.push(...silent);
+
+  const doubled = letters.match(DOUBLED_CONSONANTS) ?? [];
+  score += doubled.length * 1;
+  reasons.push(...doubled.map(pair => `double ${pair[0]}`));
+
+  const foreign = matchPatterns(letters, FOREIGN_CLUSTERS);
+  score += foreign.length * 1.5;
+  reasons.push(...foreign);
+
+  // Accents only appear in words kept in their original spelling (café, señor)
+  if (unaccented !== word) {
+    score += 1.5;
+    reasons.push('accented letters');
+  }
+
+  // Spaces, hyphens and apostrophes are easy to forget
+  if (/[\s'-]/.test(word)) {
+    score += 1;
+    reasons.push('hyphen, space or apostrophe');
+  }
+
+  const difficulty = score < EASY_MAX ? 1 : score < MEDIUM_MAX ? 2 : 3;
+  return { difficulty, score, reasons };
+}
+
+export interface DifficultyChange {
+  word: SpellingWord;
+  estimate: DifficultyEstimate;
+}
+
+// Words whose estimated difficulty differs from the one they have
+export function findDifficultyChanges(words: SpellingWord[]): DifficultyChange[] {
+  return words
+    .map(word => ({ word, estimate: estimateDifficulty(word.word) }))
+    .filter(change => change.estimate.difficulty !== change.word.difficulty);
+}
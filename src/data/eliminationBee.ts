@@ -0,0 +1,180 @@
+import { SpellingWord } from './words';
+
+// Elimination bee rules:
+// - Every speller still in gets one word per round, in registration order.
+// - Spellers who miss are eliminated at the end of the round,
+//   unless everyone in the round missed, in which case they all stay in.
+// - When one speller is left, they must spell a championship word.
+//   A miss brings back the spellers eliminated in the round before.
+// - If the word list runs out, everyone still in shares the win.
+
+export interface BeeTurn {
+  speller: number; // index into BeeState.spellers
+  word: SpellingWord;
+  correct: boolean;
+}
+
+export type BeeRoundOutcome =
+  | 'in-progress'
+  | 'all-correct'
+  | 'eliminations'
+  | 'all-missed'
+  | 'champion'
+  | 'championship-missed'
+  | 'out-of-words';
+
+export interface BeeRound {
+  number: number;
+  isChampionship: boolean;
+  order: number[]; // spellers taking a turn this round
+  turns: BeeTurn[];
+  outcome: BeeRoundOutcome;
+  eliminated: number[];
+}
+
+export interface BeeState {
+  spellers: string[];
+  active: number[];
+  rounds: BeeRound[];
+  wordsUsed: number;
+  wordCount: number;
+  winners: number[];
+  finished: boolean;
+}
+
+function newRound(number: number, order: number[], isChampionship: boolean = false): BeeRound {
+  return {
+    number,
+    isChampionship,
+    order,
+    turns: [],
+    outcome: 'in-progress',
+    eliminated: [],
+  };
+}
+
+export function createBee(spellers: string[], wordCount: number): BeeState {
+  const active = spellers.map((_, i) => i);
+  return {
+    spellers,
+    active,
+    rounds: [newRound(1, active)],
+    wordsUsed: 0,
+    wordCount,
+    winners: [],
+    finished: wordCount === 0,
+  };
+}
+
+export function getCurrentRound(state: BeeState): BeeRound {
+  return state.rounds[state.rounds.length - 1];
+}
+
+// Index of the speller whose turn it is, or null when the bee is over
+export function getCurrentSpeller(state: BeeState): number | null {
+  if (state.finished) return null;
+  const round = getCurrentRound(state);
+  return round.order[round.turns.length] ?? null;
+}
+
+// Close a round whose spellers have all had their turn and start the next one
+function finishRound(state: BeeState, round: BeeRound): BeeState {
+  const rounds = state.rounds.slice(0, -1);
+  const nextNumber = round.number + 1;
+
+  if (round.isChampionship) {
+    const turn = round.turns[0];
+    if (turn.correct) {
+      return {
+        ...state,
+        rounds: [...rounds, { ...round, outcome: 'champion' }],
+        winners: [turn.speller],
+        finished: true,
+      };
+    }
+
+    // Missed the championship word: the last round's eliminated spellers return
+    const previous = rounds[rounds.length - 1];
+    const reinstated = previous ? previous.eliminated : [];
+    const active = [...state.active, ...reinstated].sort((a, b) => a - b);
+    return {
+      ...state,
+      active,
+      rounds: [...rounds, { ...round, outcome: 'championship-missed' }, newRound(nextNumber, active)],
+    };
+  }
+
+  const missed = round.turns.filter(t => !t.correct).map(t => t.speller);
+
+  if (missed.length === 0) {
+    return {
+      ...state,
+      rounds: [...rounds, { ...round, outcome: 'all-correct' }, newRound(nextNumber, state.active)],
+    };
+  }
+
+  if (missed.length === round.order.length) {
+    return {
+      ...state,
+      rounds: [...rounds, { ...round, outcome: 'all-missed' }, newRound(nextNumber, state.active)],
+    };
+  }
+
+  const active = state.active.filter(i => !missed.includes(i));
+  const closed: BeeRound = { ...round, outcome: 'eliminations', eliminated: missed };
+  const next = active.length === 1
+    ? newRound(nextNumber, active, true)
+    : newRound(nextNumber, active);
+
+  return {
+    ...state,
+    active,
+    rounds: [...rounds, closed, next],
+  };
+}
+
+// Record the current speller's answer and advance the bee
+export function recordTurn(state: BeeState, word: SpellingWord, correct: boolean): BeeState {
+  const speller = getCurrentSpeller(state);
+  if (speller === null) return state;
+
+  const current = getCurrentRound(state);
+  const round: BeeRound = {
+    ...current,
+    turns: [...current.turns, { speller, word, correct }],
+  };
+
+  let next: BeeState = {
+    ...state,
+    wordsUsed: state.wordsUsed + 1,
+    rounds: [...state.rounds.slice(0, -1), round],
+  };
+
+  if (round.turns.length === round.order.length) {
+    next = finishRound(next, round);
+  }
+
+  // No words left: everyone still in shares the win
+  if (!next.finished && next.wordsUsed >= next.wordCount) {
+    const last = getCurrentRound(next);
+    next = {
+      ...next,
+      rounds: [...next.rounds.slice(0, -1), { ...last, outcome: 'out-of-words' }],
+      winners: next.active,
+      finished: true,
+    };
+  }
+
+  return next;
+}
+
+// Number of words each speller got right
+export function getSpellerScores(state: BeeState): number[] {
+  const scores = state.spellers.map(() => 0);
+  for (const round of state.rounds) {
+    for (const turn of round.turns) {
+      if (turn.correct) scores[turn.speller]++;
+    }
+  }
+  return scores;
+}
@@ -0,0 +1,46 @@
+import { analyzeSpelling, analyzeWord, summarizeErrors, SpellingErrorType } from './errorAnalysis';
+import { SpellingWord } from './words';
+
+function errorTypes(entered: string, target: string): SpellingErrorType[] {
+  return analyzeSpelling(entered, target).map(error => error.type);
+}
+
+test('finds no errors in a correct answer, ignoring case and spaces', () => {
+  expect(analyzeSpelling(' Receive ', 'receive')).toEqual([]);
+});
+
+test('classifies each kind of error', () => {
+  expect(analyzeSpelling('recieve', 'receive')).toEqual([
+    { type: 'ie-ei', position: 3, expected: 'ei', actual: 'ie' },
+  ]);
+  expect(errorTypes('tomorow', 'tomorrow')).toEqual(['double-letter']);
+  expect(errorTypes('tommorrow', 'tomorrow')).toEqual(['double-letter']);
+  expect(errorTypes('hte', 'the')).toEqual(['transposition']);
+  expect(errorTypes('seperate', 'separate')).toEqual(['schwa']);
+  expect(analyzeSpelling('nife', 'knife')).toEqual([
+    { type: 'silent-letter', position: 0, expected: 'k', actual: '' },
+  ]);
+  expect(errorTypes('hose', 'horse')).toEqual(['omission']);
+  expect(analyzeSpelling('carts', 'cart')).toEqual([
+    { type: 'insertion', position: 4, expected: '', actual: 's' },
+  ]);
+  expect(errorTypes('bog', 'dog')).toEqual(['substitution']);
+});
+
+test('analyses against the closest accepted spelling', () => {
+  const colour: SpellingWord = { id: 'c', word: 'colour', alternateSpelling: 'color', difficulty: 2 };
+  expect(analyzeWord('colr', colour)).toHaveLength(1);
+});
+
+test('summarises errors over wrong typed answers, most frequent first', () => {
+  const word = (text: string): SpellingWord => ({ id: text, word: text, difficulty: 2 });
+  const summary = summarizeErrors([
+    { word: word('tomorrow'), correct: false, entered: 'tomorow' },
+    { word: word('necessary'), correct: false, entered: 'neccesary' },
+    { word: word('receive'), correct: false, entered: 'recieve' },
+    { word: word('receive'), correct: true, entered: 'receive' },
+    { word: word('believe'), correct: false },
+  ]);
+  expect(summary.map(s => s.type)).toEqual(['double-letter', 'ie-ei']);
+  expect(summary[0].examples.map(e => e.entered)).toEqual(['tomorow', 'neccesary']);
+});
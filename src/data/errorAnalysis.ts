@@ -0,0 +1,244 @@
+import { SpellingWord } from './words';
+
+// Letter-level analysis of misspellings.
+// The entered text is aligned with the target word using an optimal string
+// alignment (edit distance with adjacent transpositions), and every edit is
+// then classified into a spelling error category.
+
+export type SpellingErrorType =
+  | 'omission'
+  | 'insertion'
+  | 'substitution'
+  | 'transposition'
+  | 'double-letter'
+  | 'ie-ei'
+  | 'silent-letter'
+  | 'schwa';
+
+export interface SpellingError {
+  type: SpellingErrorType;
+  position: number; // index in the target word where the error happened
+  expected: string; // letters the target has here ('' for insertions)
+  actual: string; // letters that were entered here ('' for omissions)
+}
+
+type EditOp =
+  | { op: 'match'; t: number; e: number }
+  | { op: 'substitute'; t: number; e: number }
+  | { op: 'omit'; t: number; e: number } // target letter t missing before entered letter e
+  | { op: 'insert'; t: number; e: number } // entered letter e added before target letter t
+  | { op: 'transpose'; t: number; e: number }; // target t,t+1 entered as e+1,e
+
+export const ERROR_TYPE_LABELS: Record<SpellingErrorType, string> = {
+  'omission': 'Missing letters',
+  'insertion': 'Extra letters',
+  'substitution': 'Wrong letters',
+  'transposition': 'Swapped letters',
+  'double-letter': 'Double letters',
+  'ie-ei': 'ie / ei mix-ups',
+  'silent-letter': 'Silent letters',
+  'schwa': 'Unclear vowels',
+};
+
+export const ERROR_TYPE_TIPS: Record<SpellingErrorType, string> = {
+  'omission': 'Say the word slowly and listen for every sound.',
+  'insertion': 'Check for letters that don\'t belong in the word.',
+  'substitution': 'Look closely at the letters that make each sound.',
+  'transposition': 'Watch the order of letters next to each other.',
+  'double-letter': 'You keep mixing up double consonants. Check whether a letter is doubled.',
+  'ie-ei': 'Remember: i before e, except after c (with a few exceptions).',
+  'silent-letter': 'Some letters aren\'t spoken, like the k in "knee". Picture the word as you spell it.',
+  'schwa': 'Unstressed vowels all sound like "uh". Think of a related word where the vowel is clear.',
+};
+
+const VOWELS = 'aeiou';
+
+function isVowel(char: string | undefined): boolean {
+  return !!char && VOWELS.includes(char);
+}
+
+// Align target and entered text, returning the edit operations in order
+function align(target: string, entered: string): EditOp[] {
+  const n = target.length;
+  const m = entered.length;
+  const dp: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = 0; i <= n; i++) dp[i][0] = i;
+  for (let j = 0; j <= m; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const cost = target[i - 1] === entered[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1, // omission
+        dp[i][j - 1] + 1, // insertion
+        dp[i - 1][j - 1] + cost // match / substitution
+      );
+      if (
+        i > 1 && j > 1 &&
+        target[i - 1] === entered[j - 2] &&
+        target[i - 2] === entered[j - 1] &&
+        target[i - 1] !== target[i - 2]
+      ) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  // Walk back from the end, preferring matches, then transpositions, and
+  // treating a tie between substitutions and omit/insert pairs as the latter
+  // (so "tommorow" reads as a moved double letter, not two wrong letters)
+  const ops: EditOp[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && target[i - 1] === entered[j - 1] && dp[i][j] === dp[i - 1][j - 1]) {
+      ops.push({ op: 'match', t: i - 1, e: j - 1 });
+      i--; j--;
+    } else if (
+      i > 1 && j > 1 &&
+      target[i - 1] === entered[j - 2] &&
+      target[i - 2] === entered[j - 1] &&
+      target[i - 1] !== target[i - 2] &&
+      dp[i][j] === dp[i - 2][j - 2] + 1
+    ) {
+      ops.push({ op: 'transpose', t: i - 2, e: j - 2 });
+      i -= 2; j -= 2;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+      ops.push({ op: 'omit', t: i - 1, e: j });
+      i--;
+    } else if (j > 0 && dp[i][j] === dp[i][j - 1] + 1) {
+      ops.push({ op: 'insert', t: i, e: j - 1 });
+      j--;
+    } else {
+      ops.push({ op: 'substitute', t: i - 1, e: j - 1 });
+      i--; j--;
+    }
+  }
+
+  return ops.reverse();
+}
+
+// Is the letter at index i usually not pronounced?
+export function isSilentLetter(word: string, i: number): boolean {
+  const c = word[i];
+  const prev = word[i - 1];
+  const next = word[i + 1];
+  const last = word.length - 1;
+
+  switch (c) {
+    case 'k': return i === 0 && next === 'n'; // knee
+    case 'w': return next === 'r' || (next === 'h' && word[i + 2] === 'o'); // write, whole
+    case 'g': return next === 'n' || next === 'h'; // gnome, sign, night
+    case 'b': return prev === 'm' || next === 't'; // thumb, doubt
+    case 'p': return i === 0 && (next === 's' || next === 'n'); // psychology, pneumonia
+    case 'n': return i === last && prev === 'm'; // autumn
+    case 'h': return prev === 'w' || prev === 'r' || prev === 'g' || (prev === 'c' && word[i - 2] === 's'); // what, rhyme, ghost, school
+    case 't': return (prev === 's' && (word.slice(i + 1, i + 3) === 'le' || word.slice(i + 1, i + 3) === 'en')) || next === 'c'; // castle, listen, match
+    case 'l': return isVowel(prev) && (next === 'k' || next === 'm' || next === 'f'); // walk, calm, half
+    case 'c': return prev === 's' && (next === 'e' || next === 'i' || next === 'y'); // scene
+    case 'd': return next === 'g'; // edge
+    case 'u': return prev === 'g' && isVowel(next); // guess
+    case 's': return prev === 'i' && next === 'l'; // island
+    case 'e': return i === last && i > 1 && !isVowel(prev); // magic e
+    default: return false;
+  }
+}
+
+// Index just past the first vowel group; vowels after this are outside the first syllable
+function firstSyllableEnd(word: string): number {
+  let i = 0;
+  while (i < word.length && !isVowel(word[i])) i++;
+  while (i < word.length && isVowel(word[i])) i++;
+  return i;
+}
+
+function classify(op: EditOp, target: string, entered: string): SpellingError | null {
+  const syllableEnd = firstSyllableEnd(target);
+
+  switch (op.op) {
+    case 'match':
+      return null;
+
+    case 'transpose': {
+      const expected = target.slice(op.t, op.t + 2);
+      const actual = entered.slice(op.e, op.e + 2);
+      const isIeEi = expected === 'ie' || expected === 'ei';
+      return { type: isIeEi ? 'ie-ei' : 'transposition', position: op.t, expected, actual };
+    }
+
+    case 'omit': {
+      const expected = target[op.t];
+      let type: SpellingErrorType = 'omission';
+      if (expected === target[op.t - 1] || expected === target[op.t + 1]) {
+        type = 'double-letter';
+      } else if (isSilentLetter(target, op.t)) {
+        type = 'silent-letter';
+      } else if (isVowel(expected) && op.t >= syllableEnd && !isVowel(target[op.t - 1]) && !isVowel(target[op.t + 1])) {
+        type = 'schwa';
+      }
+      return { type, position: op.t, expected, actual: '' };
+    }
+
+    case 'insert': {
+      const actual = entered[op.e];
+      const doubled = actual === target[op.t - 1] || actual === target[op.t];
+      return { type: doubled ? 'double-letter' : 'insertion', position: op.t, expected: '', actual };
+    }
+
+    case 'substitute': {
+      const expected = target[op.t];
+      const actual = entered[op.e];
+      const isSchwa = isVowel(expected) && isVowel(actual) && op.t >= syllableEnd;
+      return { type: isSchwa ? 'schwa' : 'substitution', position: op.t, expected, actual };
+    }
+  }
+}
+
+// Classify every error in `entered` compared with `target` (case-insensitive)
+export function analyzeSpelling(entered: string, target: string): SpellingError[] {
+  const t = target.toLowerCase();
+  const e = entered.trim().toLowerCase();
+  return align(t, e)
+    .map(op => classify(op, t, e))
+    .filter((error): error is SpellingError => error !== null);
+}
+
+// Analyse against whichever accepted spelling is closest
+export function analyzeWord(entered: string, word: SpellingWord): SpellingError[] {
+  const primary = analyzeSpelling(entered, word.word);
+  if (!word.alternateSpelling) return primary;
+  const alternate = analyzeSpelling(entered, word.alternateSpelling);
+  return alternate.length < primary.length ? alternate : primary;
+}
+
+export interface ErrorPatternSummary {
+  type: SpellingErrorType;
+  count: number;
+  examples: { word: string; entered: string }[];
+}
+
+// Aggregate error categories over wrong answers that have typed text, most frequent first
+export function summarizeErrors(
+  results: { word: SpellingWord; correct: boolean | null; entered?: string }[],
+  maxExamples: number = 3
+): ErrorPatternSummary[] {
+  const byType = new Map<SpellingErrorType, ErrorPatternSummary>();
+
+  for (const result of results) {
+    if (result.correct !== false || !result.entered) continue;
+    const errors = analyzeWord(result.entered, result.word);
+    const typesInWord = new Set(errors.map(e => e.type));
+
+    typesInWord.forEach(type => {
+      const summary = byType.get(type) || { type, count: 0, examples: [] };
+      summary.count += errors.filter(e => e.type === type).length;
+      if (summary.examples.length < maxExamples) {
+        summary.examples.push({ word: result.word.word, entered: result.entered! });
+      }
+      byType.set(type, summary);
+    });
+  }
+
+  return Array.from(byType.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,60 @@
+import { buildQuiz, getQuizSize, DEFAULT_QUIZ_SETUP, QuizSetupOptions, DifficultyMix, WordOrder } from './quizSetup';
+import { SpellingWord, defaultWords } from './words';
+
+function makeWords(easy: number, medium: number, hard: number): SpellingWord[] {
+  return ([[easy, 1], [medium, 2], [hard, 3]] as const).flatMap(([n, difficulty]) =>
+    Array.from({ length: n }, (_, i) => ({ id: `${difficulty}-${i}`, word: `word${difficulty}x${i}`, difficulty })));
+}
+
+function countLevels(words: SpellingWord[]): number[] {
+  return [1, 2, 3].map(level => words.filter(w => w.difficulty === level).length);
+}
+
+test('builds a quiz of the chosen length for every combination of options', () => {
+  // 4 easy, 6 medium and 10 hard, three of them (0, 9 and 18) with alternate spellings
+  const words = makeWords(4, 6, 10).map((w, i) => i % 9 === 0 ? { ...w, alternateSpelling: `${w.word}e` } : w);
+  const stats = { [words[1].id]: { attempts: 2, correct: 1, streak: 0, lastSeenAt: 0 } };
+  const mixes: (DifficultyMix | null)[] = [null, [30, 40, 30], [50, 50, 0], [0, 0, 0], [100, 0, 0]];
+  const orders: WordOrder[] = ['shuffled', 'alphabetical', 'list', 'weakest'];
+
+  [null, 5, 13, 50].forEach(wordCount => {
+    [true, false].forEach(sample => {
+      orders.forEach(order => {
+        [true, false].forEach(includeAlternates => {
+          mixes.forEach(difficultyMix => {
+            [true, false].forEach(allowMix => {
+              const options: QuizSetupOptions = { wordCount, sample, order, includeAlternates, difficultyMix };
+              const included = includeAlternates ? words.length : words.length - 3;
+              const expected = Math.min(wordCount ?? included, included);
+              const quiz = buildQuiz(words, options, stats, allowMix);
+              expect(quiz).toHaveLength(expected);
+              expect(new Set(quiz.map(w => w.id)).size).toBe(expected);
+              expect(getQuizSize(words, options, allowMix)).toBe(expected);
+            });
+          });
+        });
+      });
+    });
+  });
+});
+
+test('splits a mix by largest remainder so the counts add up', () => {
+  const quizLevels = (words: SpellingWord[], wordCount: number, difficultyMix: DifficultyMix) =>
+    countLevels(buildQuiz(words, { ...DEFAULT_QUIZ_SETUP, wordCount, difficultyMix }, {}, true));
+  const words = makeWords(10, 10, 10);
+
+  expect(quizLevels(words, 5, [1, 1, 1])).toEqual([2, 2, 1]);
+  expect(quizLevels(words, 10, [33, 33, 34])).toEqual([3, 3, 4]);
+  expect(quizLevels(words, 7, [50, 50, 0])).toEqual([4, 3, 0]);
+});
+
+test('passes the share of a level that runs short to the others', () => {
+  // The default words have no easy ones
+  const options = { ...DEFAULT_QUIZ_SETUP, wordCount: 20, difficultyMix: [30, 40, 30] as DifficultyMix };
+  expect(getQuizSize(defaultWords, options, true)).toBe(20);
+  expect(countLevels(buildQuiz(defaultWords, options, {}, true))).toEqual([0, 11, 9]);
+
+  // Levels left out of the mix are used only once the others run out
+  expect(countLevels(buildQuiz(makeWords(2, 3, 10), { ...options, difficultyMix: [50, 50, 0] }, {}, true)))
+    .toEqual([2, 3, 10]);
+});
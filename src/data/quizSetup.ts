@@ -0,0 +1,123 @@
+// Options chosen before a quiz starts: how many words, in what order, and
+// which ones. The last-used options are saved in settings.
+
+import { SpellingWord, shuffleArray } from './words';
+import { StatsMap, getWordStats, getAccuracy } from './wordStats';
+
+// 'list' keeps the list's own order (for Due Today, the review order)
+export type WordOrder = 'shuffled' | 'alphabetical' | 'list' | 'weakest';
+
+export type DifficultyMix = [number, number, number]; // easy, medium, hard, as percentages
+
+export interface QuizSetupOptions {
+  wordCount: number | null; // null = every word
+  sample: boolean; // pick wordCount words at random, rather than the first ones in order
+  order: WordOrder;
+  includeAlternates: boolean; // words with an alternate spelling
+  difficultyMix: DifficultyMix | null; // "All Words" only; null = as they come
+}
+
+export const DEFAULT_QUIZ_SETUP: QuizSetupOptions = {
+  wordCount: 20,
+  sample: true,
+  order: 'shuffled',
+  includeAlternates: true,
+  difficultyMix: null,
+};
+
+export const WORD_ORDER_LABELS: Record<WordOrder, string> = {
+  shuffled: 'Shuffled',
+  alphabetical: 'A to Z',
+  list: 'List order',
+  weakest: 'Weakest first',
+};
+
+function sortWords(words: SpellingWord[], order: WordOrder, stats: StatsMap): SpellingWord[] {
+  switch (order) {
+    case 'shuffled':
+      return shuffleArray(words);
+    case 'alphabetical':
+      return [...words].sort((a, b) => a.word.localeCompare(b.word, undefined, { sensitivity: 'base' }));
+    case 'list':
+      return words;
+    case 'weakest': {
+      // Lowest accuracy first; words never tried go last. Ties keep list order.
+      const accuracy = (word: SpellingWord) => getAccuracy(getWordStats(stats, word)) ?? Infinity;
+      return [...words].sort((a, b) => accuracy(a) - accuracy(b));
+    }
+  }
+}
+
+// Split `count` in proportion to `shares`, rounding by largest remainder so
+// the parts add up to `count`
+function splitByShares(count: number, shares: number[]): number[] {
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  const exact = shares.map(share => count * share / total);
+  const parts = exact.map(Math.floor);
+  const leftover = count - parts.reduce((sum, n) => sum + n, 0);
+  const byRemainder = parts.map((_, i) => i).sort((a, b) => (exact[b] - parts[b]) - (exact[a] - parts[a]));
+  byRemainder.slice(0, leftover).forEach(i => parts[i]++);
+  return parts;
+}
+
+// Split `count` words between the levels by the mix, without asking for more
+// words than a level has. A level that runs short passes the rest of its share
+// to levels with words to spare, so the counts add up to `count` whenever the
+// levels have that many words between them. Levels at 0% are only used once
+// the others run out, and a mix of all zeros splits evenly.
+function getMixCounts(mix: DifficultyMix, count: number, available: number[]): number[] {
+  const counts = [0, 0, 0];
+  let remaining = count;
+  while (remaining > 0) {
+    const open = counts.map((n, i) => n < available[i]);
+    const weighted = mix.map((share, i) => open[i] ? share : 0);
+    const shares = weighted.some(share => share > 0) ? weighted : open.map(isOpen => isOpen ? 1 : 0);
+    if (!shares.some(share => share > 0)) break;
+    const parts = splitByShares(remaining, shares);
+    for (let i = 0; i < parts.length; i++) {
+      const added = Math.min(parts[i], available[i] - counts[i]);
+      counts[i] += added;
+      remaining -= added;
+    }
+  }
+  return counts;
+}
+
+// How many words buildQuiz will pick
+export function getQuizSize(words: SpellingWord[], options: QuizSetupOptions, allowMix: boolean): number {
+  const included = options.includeAlternates ? words : words.filter(w => !w.alternateSpelling);
+  const count = Math.min(options.wordCount ?? included.length, included.length);
+  if (!allowMix || !options.difficultyMix) return count;
+  const available = ([1, 2, 3] as const).map(level => included.filter(w => w.difficulty === level).length);
+  return getMixCounts(options.difficultyMix, count, available).reduce((sum, n) => sum + n, 0);
+}
+
+// Words for a quiz from a list, following the setup options. `words` is in list order.
+export function buildQuiz(
+  words: SpellingWord[],
+  options: QuizSetupOptions,
+  stats: StatsMap,
+  allowMix: boolean
+): SpellingWord[] {
+  const included = options.includeAlternates ? words : words.filter(w => !w.alternateSpelling);
+  const count = Math.min(options.wordCount ?? included.length, included.length);
+
+  let chosen: SpellingWord[];
+  if (allowMix && options.difficultyMix) {
+    const levels = ([1, 2, 3] as const).map(level => included.filter(w => w.difficulty === level));
+    const counts = getMixCounts(options.difficultyMix, count, levels.map(l => l.length));
+    chosen = levels.flatMap((levelWords, i) => options.sample
+      ? shuffleArray(levelWords).slice(0, counts[i])
+      : sortWords(levelWords, options.order, stats).slice(0, counts[i]));
+    // Keep list order for everything but the final sort
+    const chosenIds = new Set(chosen.map(w => w.id));
+    chosen = included.filter(w => chosenIds.has(w.id));
+  } else if (options.sample) {
+    const chosenIds = new Set(shuffleArray(included).slice(0, count).map(w => w.id));
+    chosen = included.filter(w => chosenIds.has(w.id));
+  } else {
+    chosen = sortWords(included, options.order, stats).slice(0, count);
+  }
+
+  return sortWords(chosen, options.order, stats);
+}
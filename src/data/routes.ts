@@ -0,0 +1,131 @@
+// Hash routes, e.g. #/quiz/hard or #/quiz/list/Week%203 or #/settings/voice.
+// Worksheets take the same list names: #/print/hard or #/print/list/Week%203.
+// Adaptive quizzes name their starting level: #/quiz/adaptive/medium.
+// Choosing a list opens its quiz setup first: #/setup/hard.
+// The hash never reaches the server, so deep links also work under the
+// GitHub Pages base path without a 404 fallback.
+
+// A list of words, for a quiz or a worksheet
+export type WordListRoute =
+  | { type: 'preset'; difficulty: 1 | 2 | 3 | 'all' }
+  | { type: 'custom'; name: string }
+  | { type: 'due' };
+
+export type QuizListRoute =
+  | WordListRoute
+  | { type: 'adaptive'; startLevel: 1 | 2 | 3 }; // draws from the whole word bank
+
+export const SETTINGS_SECTIONS = ['voice', 'timer', 'words', 'lists', 'import', 'dictionary', 'backup', 'reset'] as const;
+export type SettingsSection = typeof SETTINGS_SECTIONS[number];
+
+export type Route =
+  | { screen: 'home' }
+  | { screen: 'select' }
+  | { screen: 'setup'; list: WordListRoute }
+  | { screen: 'quiz'; list: QuizListRoute | null } // null = words picked in the app, e.g. a rerun
+  | { screen: 'results' }
+  | { screen: 'settings'; section: SettingsSection | null }
+  | { screen: 'history' }
+  | { screen: 'bee-setup' }
+  | { screen: 'bee' }
+  | { screen: 'bee-winner' }
+  | { screen: 'share'; data: string } // a custom list shared from another device
+  | { screen: 'print'; list: WordListRoute | null }; // null = all words
+
+const PRESET_SLUGS: Record<string, 1 | 2 | 3 | 'all'> = {
+  all: 'all',
+  easy: 1,
+  medium: 2,
+  hard: 3,
+};
+
+function getPresetSlug(difficulty: 1 | 2 | 3 | 'all'): string {
+  return Object.keys(PRESET_SLUGS).find(slug => PRESET_SLUGS[slug] === difficulty) || 'all';
+}
+
+function parseWordList(parts: string[]): WordListRoute | null {
+  const [kind, name] = parts;
+  if (kind === 'due') return { type: 'due' };
+  if (kind === 'list' && name) return { type: 'custom', name };
+  if (kind && Object.prototype.hasOwnProperty.call(PRESET_SLUGS, kind)) {
+    return { type: 'preset', difficulty: PRESET_SLUGS[kind] };
+  }
+  return null;
+}
+
+function parseQuizList(parts: string[]): QuizListRoute | null {
+  const [kind, level] = parts;
+  if (kind === 'adaptive') {
+    const startLevel = level && Object.prototype.hasOwnProperty.call(PRESET_SLUGS, level) ? PRESET_SLUGS[level] : 'all';
+    return { type: 'adaptive', startLevel: startLevel === 'all' ? 2 : startLevel };
+  }
+  return parseWordList(parts);
+}
+
+export function parseRoute(hash: string): Route {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch (e) {
+      return part;
+    }
+  });
+
+  switch (parts[0]) {
+    case 'select':
+      return { screen: 'select' };
+    case 'setup': {
+      const list = parseWordList(parts.slice(1));
+      return list ? { screen: 'setup', list } : { screen: 'select' };
+    }
+    case 'quiz':
+      return { screen: 'quiz', list: parseQuizList(parts.slice(1)) };
+    case 'results':
+      return { screen: 'results' };
+    case 'settings': {
+      const section = SETTINGS_SECTIONS.find(s => s === parts[1]);
+      return { screen: 'settings', section: section ?? null };
+    }
+    case 'history':
+      return { screen: 'history' };
+    case 'print':
+      return { screen: 'print', list: parseWordList(parts.slice(1)) };
+    case 'share':
+      return parts[1] ? { screen: 'share', data: parts[1] } : { screen: 'home' };
+    case 'bee':
+      if (parts[1] === 'setup') return { screen: 'bee-setup' };
+      if (parts[1] === 'winner') return { screen: 'bee-winner' };
+      return { screen: 'bee' };
+    default:
+      return { screen: 'home' };
+  }
+}
+
+function formatQuizList(list: QuizListRoute): string {
+  switch (list.type) {
+    case 'preset': return getPresetSlug(list.difficulty);
+    case 'due': return 'due';
+    case 'custom': return `list/${encodeURIComponent(list.name)}`;
+    case 'adaptive': return `adaptive/${getPresetSlug(list.startLevel)}`;
+  }
+}
+
+export function formatRoute(route: Route): string {
+  switch (route.screen) {
+    case 'home': return '#/';
+    case 'setup': return `#/setup/${formatQuizList(route.list)}`;
+    case 'quiz': return route.list ? `#/quiz/${formatQuizList(route.list)}` : '#/quiz';
+    case 'print': return route.list ? `#/print/${formatQuizList(route.list)}` : '#/print';
+    case 'settings': return route.section ? `#/settings/${route.section}` : '#/settings';
+    case 'bee-setup': return '#/bee/setup';
+    case 'bee-winner': return '#/bee/winner';
+    case 'share': return `#/share/${route.data}`;
+    default: return `#/${route.screen}`;
+  }
+}
+
+// Full link to a route, for copying or bookmarking
+export function getRouteUrl(route: Route): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${formatRoute(route)}`;
+}
@@ -0,0 +1,109 @@
+import { SpellingWord } from './words';
+
+// Leitner-box spaced repetition.
+// A correct answer moves a word up one box, a miss sends it back to box 1.
+// Each box has a review interval in days.
+
+export interface WordSchedule {
+  box: number; // 1 to LEITNER_INTERVALS.length
+  dueAt: number; // timestamp (start of the day the word is due)
+  lastReviewedAt: number;
+}
+
+export type ScheduleMap = Record<string, WordSchedule>; // keyed by word id
+
+export const LEITNER_INTERVALS = [1, 2, 4, 8, 16]; // days, indexed by box - 1
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+// Apply one answer to a word's schedule
+export function reviewWord(
+  current: WordSchedule | undefined,
+  correct: boolean,
+  now: number = Date.now()
+): WordSchedule {
+  const maxBox = LEITNER_INTERVALS.length;
+  const box = correct
+    ? Math.min((current?.box ?? 0) + 1, maxBox)
+    : 1;
+
+  return {
+    box,
+    dueAt: addDays(startOfDay(now), LEITNER_INTERVALS[box - 1]),
+    lastReviewedAt: now,
+  };
+}
+
+// Apply a batch of quiz answers, ignoring skipped words
+export function applyResults(
+  schedule: ScheduleMap,
+  results: { word: SpellingWord; correct: boolean | null }[],
+  now: number = Date.now()
+): ScheduleMap {
+  const updated = { ...schedule };
+  for (const result of results) {
+    if (result.correct === null) continue;
+    const id = result.word.id;
+    updated[id] = reviewWord(updated[id], result.correct, now);
+  }
+  return updated;
+}
+
+// Words that are due today or overdue (never-reviewed words are not due)
+export function getDueWords(
+  words: SpellingWord[],
+  schedule: ScheduleMap,
+  now: number = Date.now()
+): SpellingWord[] {
+  const endOfToday = addDays(startOfDay(now), 1);
+  return words
+    .filter(w => {
+      const entry = schedule[w.id];
+      return entry !== undefined && entry.dueAt < endOfToday;
+    })
+    // Most overdue first
+    .sort((a, b) => schedule[a.id].dueAt - schedule[b.id].dueAt);
+}
+
+export interface DueForecastDay {
+  date: number; // start of day
+  count: number;
+}
+
+// How many words fall due on each of the next `days` days.
+// Overdue words are counted on the first day.
+export function getDueForecast(
+  words: SpellingWord[],
+  schedule: ScheduleMap,
+  days: number = 7,
+  now: number = Date.now()
+): DueForecastDay[] {
+  const today = startOfDay(now);
+  const forecast: DueForecastDay[] = Array.from({ length: days }, (_, i) => ({
+    date: addDays(today, i),
+    count: 0,
+  }));
+
+  for (const word of words) {
+    const entry = schedule[word.id];
+    if (!entry) continue;
+    const dayIndex = Math.max(0, Math.round((startOfDay(entry.dueAt) - today) / DAY_MS));
+    if (dayIndex < days) {
+      forecast[dayIndex].count++;
+    }
+  }
+
+  return forecast;
+}
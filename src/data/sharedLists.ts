@@ -0,0 +1,164 @@
+// Custom lists shared as links: the list's words travel in the URL fragment,
+// deflate-compressed where the browser supports it
+
+import { SpellingWord, NewSpellingWord, getWordKey, withWordId } from './words';
+import { CustomWordList } from '../hooks/useSettings';
+
+export interface SharedList {
+  name: string;
+  words: NewSpellingWord[]; // ids stay on the device they came from
+}
+
+// Compact form in the link: [word, difficulty, alternate spelling?]
+interface SharedListPayload {
+  v: 1;
+  n: string;
+  w: [string, 1 | 2 | 3, string?][];
+}
+
+// Not in TypeScript 4.9's DOM types
+interface ByteTransformStream {
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
+declare const CompressionStream: (new (format: 'deflate-raw') => ByteTransformStream) | undefined;
+declare const DecompressionStream: (new (format: 'deflate-raw') => ByteTransformStream) | undefined;
+
+// First character of the encoded list says how the rest is stored
+const COMPRESSED_PREFIX = 'z';
+const PLAIN_PREFIX = 'j';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: ByteTransformStream): Promise<Uint8Array> {
+  const reader = new Blob([bytes]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+export async function encodeSharedList(list: SharedList): Promise<string> {
+  const payload: SharedListPayload = {
+    v: 1,
+    n: list.name,
+    w: list.words.map(w => w.alternateSpelling
+      ? [w.word, w.difficulty, w.alternateSpelling]
+      : [w.word, w.difficulty]),
+  };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+
+  if (typeof CompressionStream === 'undefined') {
+    return PLAIN_PREFIX + toBase64Url(bytes);
+  }
+  return COMPRESSED_PREFIX + toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+}
+
+function isPayloadWord(value: unknown): value is [string, 1 | 2 | 3, string?] {
+  return Array.isArray(value)
+    && typeof value[0] === 'string'
+    && value[0].trim() !== ''
+    && [1, 2, 3].includes(value[1])
+    && (value[2] === undefined || typeof value[2] === 'string');
+}
+
+// Read a shared list from a link, or null if the link is damaged
+export async function decodeSharedList(encoded: string): Promise<SharedList | null> {
+  try {
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (encoded.startsWith(COMPRESSED_PREFIX)) {
+      if (typeof DecompressionStream === 'undefined') return null;
+      bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+    } else if (!encoded.startsWith(PLAIN_PREFIX)) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+    if (payload?.v !== 1 || typeof payload.n !== 'string' || !Array.isArray(payload.w) || !payload.w.every(isPayloadWord)) {
+      return null;
+    }
+
+    return {
+      name: payload.n,
+      words: (payload.w as SharedListPayload['w']).map(([word, difficulty, alternateSpelling]) => (
+        alternateSpelling ? { word, difficulty, alternateSpelling } : { word, difficulty }
+      )),
+    };
+  } catch (e) {
+    console.error('Failed to read shared list:', e);
+    return null;
+  }
+}
+
+export interface SharedListImportPlan {
+  newWords: SpellingWord[]; // not in the word bank yet, with ids to add them under
+  existingWords: SpellingWord[]; // already in the bank (the bank's version is kept)
+  wordIds: string[]; // ids of the list's words, new and existing
+  nameTaken: boolean;
+  suggestedName: string; // free name to use instead of overwriting
+}
+
+// A list name that isn't used yet: "Week 3", "Week 3 (2)", ...
+function getFreeListName(name: string, customLists: CustomWordList[]): string {
+  const taken = new Set(customLists.map(l => l.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+}
+
+// Work out what importing a shared list would add to this device
+export function planSharedListImport(
+  shared: SharedList,
+  bank: SpellingWord[],
+  customLists: CustomWordList[]
+): SharedListImportPlan {
+  const bankByKey = new Map(bank.map(w => [getWordKey(w), w]));
+  const newWords: SpellingWord[] = [];
+  const existingWords: SpellingWord[] = [];
+  const wordIds: string[] = [];
+  const seen = new Set<string>();
+
+  for (const word of shared.words) {
+    const key = getWordKey(word);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const existing = bankByKey.get(key);
+    if (existing) {
+      existingWords.push(existing);
+      wordIds.push(existing.id);
+    } else {
+      const newWord = withWordId(word);
+      newWords.push(newWord);
+      wordIds.push(newWord.id);
+    }
+  }
+
+  return {
+    newWords,
+    existingWords,
+    wordIds,
+    nameTaken: customLists.some(l => l.name === shared.name),
+    suggestedName: getFreeListName(shared.name, customLists),
+  };
+}
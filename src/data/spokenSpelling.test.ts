@@ -0,0 +1,116 @@
+import { parseSpokenSpelling } from './spokenSpelling';
+import { checkSpelling } from './words';
+import { SpeechRecognizer, RecognitionResultEvent, listen } from '../services/speechRecognition';
+
+// Plays back scripted transcripts instead of using a microphone
+class StubRecognizer implements SpeechRecognizer {
+  lang = '';
+  continuous = false;
+  interimResults = false;
+  onresult: ((event: RecognitionResultEvent) => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onend: (() => void) | null = null;
+  started = false;
+
+  start() {
+    this.started = true;
+  }
+
+  stop() {
+    this.onend?.();
+  }
+
+  abort() {
+    this.onerror?.({ error: 'aborted' });
+    this.onend?.();
+  }
+
+  // Each phrase becomes one recognition result, like pauses between letters
+  say(phrases: string[], isFinal = true) {
+    const results = phrases.map(transcript => Object.assign([{ transcript }], { isFinal }));
+    this.onresult?.({ results });
+  }
+}
+
+test('reads plain letters and letter names', () => {
+  expect(parseSpokenSpelling('c a t').letters).toBe('cat');
+  expect(parseSpokenSpelling('C-A-T').letters).toBe('cat');
+  expect(parseSpokenSpelling('see ay tee').letters).toBe('cat');
+  expect(parseSpokenSpelling('why oh you').letters).toBe('you');
+});
+
+test('understands double, capital, hyphen and apostrophe', () => {
+  expect(parseSpokenSpelling('l e double t e r').letters).toBe('letter');
+  expect(parseSpokenSpelling('capital b e t h').letters).toBe('Beth');
+  expect(parseSpokenSpelling('x hyphen r a y').letters).toBe('x-ray');
+  expect(parseSpokenSpelling('d o n apostrophe t').letters).toBe("don't");
+  expect(parseSpokenSpelling('capital letter j space b').letters).toBe('J b');
+});
+
+test('"double u" is the letter W', () => {
+  expect(parseSpokenSpelling('double u a s p').letters).toBe('wasp');
+  expect(parseSpokenSpelling('s double-you i m').letters).toBe('swim');
+  expect(parseSpokenSpelling('v a c u u m').letters).toBe('vacuum');
+});
+
+test('skips the word said before and after spelling it', () => {
+  expect(parseSpokenSpelling('cat c a t cat', 'cat').letters).toBe('cat');
+  expect(parseSpokenSpelling('a a a', 'a').letters).toBe('a');
+  expect(parseSpokenSpelling('a', 'a').letters).toBe('a');
+});
+
+test('reports words that are not letters', () => {
+  const spelling = parseSpokenSpelling('c um a banana t');
+  expect(spelling.letters).toBe('cat');
+  expect(spelling.unrecognized).toEqual(['banana']);
+  expect(parseSpokenSpelling('constructor').unrecognized).toEqual(['constructor']);
+});
+
+test('grades a spoken answer from a stubbed recognizer', () => {
+  const recognizer = new StubRecognizer();
+  const heard: string[] = [];
+  let final = '';
+
+  const session = listen(() => recognizer, {
+    onTranscript: transcript => heard.push(transcript),
+    onEnd: transcript => { final = transcript; },
+    onError: message => { throw new Error(message); },
+  });
+  expect(recognizer.started).toBe(true);
+  expect(recognizer.continuous).toBe(true);
+
+  recognizer.say(['b'], false);
+  recognizer.say(['b', 'e double'], false);
+  recognizer.say(['b', 'e double', 't'], true);
+  session.stop();
+
+  expect(heard).toEqual(['b', 'b e double', 'b e double t']);
+  expect(final).toBe('b e double t');
+
+  const { letters } = parseSpokenSpelling(final, 'bett');
+  expect(letters).toBe('bett');
+  expect(checkSpelling(letters, { word: 'bett', difficulty: 1 })).toBe(true);
+});
+
+test('cancelling discards what was heard', () => {
+  const recognizer = new StubRecognizer();
+  const onEnd = jest.fn();
+  const onError = jest.fn();
+
+  const session = listen(() => recognizer, { onTranscript: jest.fn(), onEnd, onError });
+  recognizer.say(['c a']);
+  session.cancel();
+
+  expect(onEnd).not.toHaveBeenCalled();
+  expect(onError).not.toHaveBeenCalled();
+});
+
+test('explains recognizer errors', () => {
+  const recognizer = new StubRecognizer();
+  const onError = jest.fn();
+
+  listen(() => recognizer, { onTranscript: jest.fn(), onEnd: jest.fn(), onError });
+  recognizer.onerror?.({ error: 'not-allowed' });
+
+  expect(onError).toHaveBeenCalledWith(expect.stringMatching(/Microphone access was blocked/));
+});
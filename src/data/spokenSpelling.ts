@@ -0,0 +1,124 @@
+// Turns a speech-recognition transcript of a spelled-out word ("capital b
+// e double t apostrophe s") into letters ("Bett's"). Understands the same
+// words spellOutWord says, plus common ways recognizers write letter names.
+
+export interface SpokenSpelling {
+  letters: string;
+  unrecognized: string[]; // words in the transcript that aren't letters
+}
+
+// How recognizers tend to write each letter name
+const LETTER_NAMES: Record<string, string> = {
+  ay: 'a',
+  bee: 'b', be: 'b', bea: 'b',
+  see: 'c', sea: 'c', cee: 'c',
+  dee: 'd',
+  ee: 'e',
+  ef: 'f', eff: 'f',
+  gee: 'g', jee: 'g',
+  aitch: 'h', haitch: 'h',
+  eye: 'i', aye: 'i',
+  jay: 'j',
+  kay: 'k',
+  el: 'l', ell: 'l', elle: 'l',
+  em: 'm',
+  en: 'n',
+  oh: 'o', owe: 'o',
+  pee: 'p', pea: 'p',
+  cue: 'q', queue: 'q', que: 'q',
+  ar: 'r', are: 'r',
+  ess: 's',
+  tee: 't', tea: 't',
+  you: 'u',
+  vee: 'v',
+  dub: 'w', dubya: 'w',
+  ex: 'x',
+  why: 'y', wye: 'y',
+  zee: 'z', zed: 'z',
+};
+
+const SYMBOL_NAMES: Record<string, string> = {
+  hyphen: '-',
+  dash: '-',
+  apostrophe: "'",
+  space: ' ',
+  period: '.',
+  dot: '.',
+};
+
+const CAPITAL_WORDS = new Set(['capital', 'cap', 'uppercase', 'upper']);
+const REPEAT_WORDS: Record<string, number> = { double: 2, triple: 3 };
+
+// Filler that can be dropped without changing the spelling
+const IGNORED_WORDS = new Set(['letter', 'case', 'lowercase', 'small', 'um', 'uh', 'er', 'erm']);
+
+// Own keys only, so words like "constructor" aren't found on the prototype
+function lookup<T>(table: Record<string, T>, token: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, token) ? table[token] : undefined;
+}
+
+function getLetter(token: string): string | undefined {
+  return /^[a-z]$/.test(token) ? token : lookup(LETTER_NAMES, token);
+}
+
+function tokenize(transcript: string): string[] {
+  return transcript
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .map(token => token.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+// `word`: bee spellers say the word before and after spelling it, so those
+// are skipped when they're not the only thing said
+export function parseSpokenSpelling(transcript: string, word?: string): SpokenSpelling {
+  const tokens = tokenize(transcript);
+
+  const wordTokens = word ? tokenize(word) : [];
+  if (wordTokens.length === 1 && tokens.length > 1) {
+    const [said] = wordTokens;
+    if (tokens[0] === said) tokens.shift();
+    if (tokens.length > 1 && tokens[tokens.length - 1] === said) tokens.pop();
+  }
+
+  let letters = '';
+  const unrecognized: string[] = [];
+  let capital = false;
+  let repeat = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (CAPITAL_WORDS.has(token)) {
+      capital = true;
+      continue;
+    }
+    const repeatCount = lookup(REPEAT_WORDS, token);
+    if (repeatCount) {
+      // "double u" is W, not two u's
+      if (token === 'double' && (tokens[i + 1] === 'u' || tokens[i + 1] === 'you')) {
+        letters += capital ? 'W' : 'w';
+        capital = false;
+        i++;
+        continue;
+      }
+      repeat = repeatCount;
+      continue;
+    }
+    if (IGNORED_WORDS.has(token)) continue;
+
+    const letter = getLetter(token);
+    const symbol = lookup(SYMBOL_NAMES, token);
+    if (letter) {
+      letters += (capital ? letter.toUpperCase() : letter).repeat(repeat);
+    } else if (symbol) {
+      letters += symbol.repeat(repeat);
+    } else {
+      unrecognized.push(token);
+    }
+    capital = false;
+    repeat = 1;
+  }
+
+  return { letters, unrecognized };
+}
@@ -0,0 +1,66 @@
+import {
+  StaircaseState,
+  startStaircase,
+  stepStaircase,
+  isStaircaseStable,
+  getWorkingLevel,
+  formatWorkingLevel,
+} from './staircase';
+
+function answer(state: StaircaseState, answers: (boolean | null)[]): StaircaseState {
+  return answers.reduce(stepStaircase, state);
+}
+
+const hits = [true, true, true];
+const misses = [false, false];
+
+test('steps up after a run of hits and down after a run of misses', () => {
+  const up = answer(startStaircase(2), hits);
+  expect(up).toEqual({ level: 3, hits: 0, misses: 0, lastStep: 1, turns: [] });
+
+  // A miss resets the run of hits, and skips don't count either way
+  expect(answer(startStaircase(2), [true, true, false, null, true]).level).toBe(2);
+
+  const down = answer(up, misses);
+  expect(down.level).toBe(2);
+  expect(down.turns).toEqual([3]);
+});
+
+test('counts a turn when stopped at the top', () => {
+  const top = answer(startStaircase(3), hits);
+  expect(top.level).toBe(3);
+  expect(top.turns).toEqual([3]);
+});
+
+test('counts a turn when stopped at the bottom', () => {
+  const bottom = answer(startStaircase(1), misses);
+  expect(bottom.level).toBe(1);
+  expect(bottom.turns).toEqual([1]);
+
+  // Carrying on down from level 2 doesn't turn until the bottom
+  const falling = answer(startStaircase(2), [...misses, ...misses]);
+  expect(falling.turns).toEqual([1]);
+});
+
+test('settles after enough turns and averages the recent ones', () => {
+  let state = answer(startStaircase(2), [...hits, ...hits]); // up, then stopped at the top
+  state = answer(state, [...misses, ...misses, ...misses]); // turn at 3, down, stopped at the bottom
+  expect(state.turns).toEqual([3, 3, 1]);
+  expect(isStaircaseStable(state)).toBe(false);
+
+  state = answer(state, hits); // turn at 1
+  expect(state.turns).toEqual([3, 3, 1, 1]);
+  expect(isStaircaseStable(state)).toBe(true);
+  expect(getWorkingLevel(state)).toBe(2);
+
+  // Only the last four turns count
+  state = answer(state, [...hits, ...hits]); // up to 3, stopped at the top
+  expect(getWorkingLevel(state)).toBe((3 + 1 + 1 + 3) / 4);
+});
+
+test('uses the current level as the working level before any turns', () => {
+  expect(getWorkingLevel(startStaircase(3))).toBe(3);
+  expect(formatWorkingLevel(2)).toBe('Medium');
+  expect(formatWorkingLevel(2.25)).toBe('Medium to Hard');
+  expect(formatWorkingLevel(1.2)).toBe('Easy');
+});
@@ -0,0 +1,88 @@
+import { SpellingWord, getDifficultyLabel } from './words';
+
+// Adaptive quiz: a staircase over the three difficulty levels. A run of
+// correct answers steps up a level and a run of misses steps down. Each time
+// the staircase turns around (or is stopped at the top or bottom) is a
+// "turn"; once it has turned a few times the level is stable, and the levels
+// it turned at give the speller's working level.
+
+export type Level = 1 | 2 | 3;
+
+export interface StaircaseState {
+  level: Level; // level of the next word
+  hits: number; // correct answers in a row at this level
+  misses: number; // misses in a row at this level
+  lastStep: -1 | 0 | 1; // direction of the last step, 0 before the first
+  turns: Level[]; // levels where the staircase turned or hit the top or bottom
+}
+
+export interface AdaptiveQuizOptions {
+  startLevel: Level;
+  maxWords: number; // ends here even if the level hasn't settled
+}
+
+export const HITS_TO_STEP_UP = 3;
+export const MISSES_TO_STEP_DOWN = 2;
+export const STABLE_TURNS = 4;
+
+export function startStaircase(level: Level): StaircaseState {
+  return { level, hits: 0, misses: 0, lastStep: 0, turns: [] };
+}
+
+// Move the staircase after an answer. Skipped words don't count either way.
+export function stepStaircase(state: StaircaseState, correct: boolean | null): StaircaseState {
+  if (correct === null) return state;
+
+  const hits = correct ? state.hits + 1 : 0;
+  const misses = correct ? 0 : state.misses + 1;
+  const step = hits >= HITS_TO_STEP_UP ? 1 : misses >= MISSES_TO_STEP_DOWN ? -1 : 0;
+  if (step === 0) return { ...state, hits, misses };
+
+  const next = state.level + step;
+  const blocked = next < 1 || next > 3;
+  const turned = blocked || (state.lastStep !== 0 && state.lastStep !== step);
+  return {
+    level: blocked ? state.level : next as Level,
+    hits: 0,
+    misses: 0,
+    lastStep: step,
+    turns: turned ? [...state.turns, state.level] : state.turns,
+  };
+}
+
+export function isStaircaseStable(state: StaircaseState): boolean {
+  return state.turns.length >= STABLE_TURNS;
+}
+
+// Average level of the last few turns, or the current level before any turns
+export function getWorkingLevel(state: StaircaseState): number {
+  const recent = state.turns.slice(-STABLE_TURNS);
+  if (recent.length === 0) return state.level;
+  return recent.reduce((sum, level) => sum + level, 0) / recent.length;
+}
+
+// e.g. "Medium" or "Medium to Hard", to the nearest half level
+export function formatWorkingLevel(workingLevel: number): string {
+  const halves = Math.round(workingLevel * 2);
+  if (halves % 2 === 0) return getDifficultyLabel((halves / 2) as Level);
+  const lower = Math.floor(halves / 2) as Level;
+  return `${getDifficultyLabel(lower)} to ${getDifficultyLabel((lower + 1) as Level)}`;
+}
+
+// A random word not asked yet, from the level or the nearest level that has one
+export function pickStaircaseWord(
+  pool: SpellingWord[],
+  level: Level,
+  askedIds: Set<string>
+): SpellingWord | null {
+  const unused = pool.filter(w => !askedIds.has(w.id));
+  for (let distance = 0; distance <= 2; distance++) {
+    // Prefer the easier side when two levels are equally near
+    const candidates = unused.filter(w => w.difficulty === level - distance || w.difficulty === level + distance);
+    const nearest = candidates.some(w => w.difficulty === level - distance)
+      ? candidates.filter(w => w.difficulty === level - distance)
+      : candidates;
+    if (nearest.length > 0) return nearest[Math.floor(Math.random() * nearest.length)];
+  }
+  return null;
+}
@@ -0,0 +1,250 @@
+import { SpellingWord, NewSpellingWord } from './words';
+import { estimateDifficulty } from './difficultyEstimate';
+
+// Parsing and serialising word lists as CSV, TSV, JSON and plain text
+
+export type WordListFormat = 'csv' | 'tsv' | 'json' | 'txt';
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  word: number;
+  alternateSpelling: number | null;
+  difficulty: number | null;
+}
+
+export interface ImportRow {
+  word: NewSpellingWord;
+  isDuplicate: boolean;
+  difficultyGuessed: boolean; // true when no difficulty was given and it was estimated from the word
+}
+
+export const FORMAT_LABELS: Record<WordListFormat, string> = {
+  csv: 'CSV (spreadsheet)',
+  tsv: 'TSV (tab-separated)',
+  json: 'JSON',
+  txt: 'Plain text (one word per line)',
+};
+
+const MIME_TYPES: Record<WordListFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+export function getMimeType(format: WordListFormat): string {
+  return MIME_TYPES[format];
+}
+
+// Guess the format from a file name, falling back to the content
+export function detectFormat(text: string, fileName?: string): WordListFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'tsv' || extension === 'json' || extension === 'txt') {
+    return extension;
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  const firstLine = trimmed.split(/\r?\n/)[0] || '';
+  if (firstLine.includes('\t')) return 'tsv';
+  if (firstLine.includes(',')) return 'csv';
+  return 'txt';
+}
+
+// Split delimited text into rows, honouring double-quoted fields
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(f => f.trim()))
+    .filter(r => r.some(f => f !== ''));
+}
+
+function parseJson(text: string): ParsedTable {
+  const data = JSON.parse(text);
+  // Accept a bare array or a custom list export ({ name, words })
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.words) ? data.words : [];
+
+  if (items.every(item => typeof item === 'string')) {
+    return { headers: ['word'], rows: (items as string[]).map(w => [w]) };
+  }
+
+  const headers: string[] = [];
+  for (const item of items) {
+    if (item && typeof item === 'object') {
+      for (const key of Object.keys(item)) {
+        if (!headers.includes(key)) headers.push(key);
+      }
+    }
+  }
+
+  const rows = items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map(item => headers.map(h => (item[h] === undefined || item[h] === null ? '' : String(item[h]))));
+
+  return { headers, rows };
+}
+
+// Parse text into a table. For CSV/TSV, `hasHeader` says whether the first row names the columns.
+export function parseWordListText(text: string, format: WordListFormat, hasHeader: boolean): ParsedTable {
+  if (format === 'json') {
+    return parseJson(text);
+  }
+
+  let rows: string[][];
+  if (format === 'txt') {
+    rows = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line !== '' && !line.startsWith('#'))
+      .map(line => [line]);
+  } else {
+    rows = parseDelimited(text, format === 'tsv' ? '\t' : ',');
+  }
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  if (hasHeader && format !== 'txt' && rows.length > 0) {
+    const headerRow = rows[0];
+    return {
+      headers: Array.from({ length: columnCount }, (_, i) => headerRow[i] || `Column ${i + 1}`),
+      rows: rows.slice(1),
+    };
+  }
+
+  return {
+    headers: Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`),
+    rows,
+  };
+}
+
+// Guess which columns hold which fields from their header names
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex(h => pattern.test(h.toLowerCase()));
+    return index >= 0 ? index : null;
+  };
+
+  const alternateSpelling = find(/alt|variant|other/);
+  const difficulty = find(/diff|level|grade/);
+  const word = headers.findIndex((h, i) => /word|spelling|term/.test(h.toLowerCase()) && i !== alternateSpelling);
+
+  return {
+    word: word >= 0 ? word : 0,
+    alternateSpelling,
+    difficulty,
+  };
+}
+
+// Read a difficulty cell; returns null when it can't be understood
+export function parseDifficulty(value: string): 1 | 2 | 3 | null {
+  const v = value.trim().toLowerCase();
+  if (v === '1' || v === 'easy' || v === 'e') return 1;
+  if (v === '2' || v === 'medium' || v === 'med' || v === 'm') return 2;
+  if (v === '3' || v === 'hard' || v === 'h') return 3;
+  return null;
+}
+
+// Turn table rows into words, flagging duplicates against the existing word bank
+// and within the import itself
+export function mapRowsToWords(
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  existingWords: SpellingWord[]
+): ImportRow[] {
+  const seen = new Set(existingWords.map(w => w.word.toLowerCase()));
+  const imported: ImportRow[] = [];
+
+  for (const row of table.rows) {
+    const word = (row[mapping.word] || '').trim();
+    if (!word) continue;
+
+    const alternate = mapping.alternateSpelling !== null ? (row[mapping.alternateSpelling] || '').trim() : '';
+    const difficulty = mapping.difficulty !== null ? parseDifficulty(row[mapping.difficulty] || '') : null;
+
+    const key = word.toLowerCase();
+    imported.push({
+      word: {
+        word,
+        alternateSpelling: alternate || undefined,
+        difficulty: difficulty ?? estimateDifficulty(word).difficulty,
+      },
+      isDuplicate: seen.has(key),
+      difficultyGuessed: difficulty === null,
+    });
+    seen.add(key);
+  }
+
+  return imported;
+}
+
+function escapeDelimited(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// Serialise words (optionally as a named list) in the chosen format
+export function exportWordList(words: SpellingWord[], format: WordListFormat, listName?: string): string {
+  switch (format) {
+    case 'json': {
+      const data = listName ? { name: listName, words } : words;
+      return JSON.stringify(data, null, 2);
+    }
+    case 'txt':
+      return words.map(w => w.word).join('\n') + '\n';
+    case 'csv':
+    case 'tsv': {
+      const delimiter = format === 'tsv' ? '\t' : ',';
+      const lines = [
+        ['word', 'alternateSpelling', 'difficulty'].join(delimiter),
+        ...words.map(w => [
+          escapeDelimited(w.word, delimiter),
+          escapeDelimited(w.alternateSpelling || '', delimiter),
+          String(w.difficulty),
+        ].join(delimiter)),
+      ];
+      return lines.join('\n') + '\n';
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { SpellingWord } from './words';
+
+// Per-word performance, built up from quiz results
+
+export interface WordStats {
+  attempts: number;
+  correct: number;
+  streak: number; // consecutive correct answers, reset by a miss
+  lastSeenAt: number;
+}
+
+export type StatsMap = Record<string, WordStats>; // keyed by word id
+
+export function getWordStats(stats: StatsMap, word: SpellingWord): WordStats | undefined {
+  return stats[word.id];
+}
+
+// Accuracy from 0 to 1, or null when the word has never been answered
+export function getAccuracy(entry: WordStats | undefined): number | null {
+  if (!entry || entry.attempts === 0) return null;
+  return entry.correct / entry.attempts;
+}
+
+// Apply a batch of quiz answers, ignoring skipped words
+export function applyResultsToStats(
+  stats: StatsMap,
+  results: { word: SpellingWord; correct: boolean | null }[],
+  now: number = Date.now()
+): StatsMap {
+  const updated = { ...stats };
+  for (const result of results) {
+    if (result.correct === null) continue;
+    const id = result.word.id;
+    const current = updated[id] || { attempts: 0, correct: 0, streak: 0, lastSeenAt: 0 };
+    updated[id] = {
+      attempts: current.attempts + 1,
+      correct: current.correct + (result.correct ? 1 : 0),
+      streak: result.correct ? current.streak + 1 : 0,
+      lastSeenAt: now,
+    };
+  }
+  return updated;
+}
@@ -1,13 +1,49 @@
 import defaultWordsJson from './defaultWords.json';
 
 export interface SpellingWord {
+  id: string; // stays the same when the word is edited; lists refer to words by id
   word: string;
   alternateSpelling?: string;
   difficulty: 1 | 2 | 3; // 1 = easy, 2 = medium, 3 = hard
 }
 
-// Load default words from JSON
-export const defaultWords: SpellingWord[] = defaultWordsJson as SpellingWord[];
+// A word that isn't in a word bank yet, e.g. from an import or a shared link
+export type NewSpellingWord = Omit<SpellingWord, 'id'>;
+
+export function createWordId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Give a word an id unless it already has one
+export function withWordId(word: NewSpellingWord | SpellingWord): SpellingWord {
+  return 'id' in word && word.id ? word : { ...word, id: createWordId() };
+}
+
+// Case-insensitive key for matching words by spelling, e.g. across word banks
+export function getWordKey(word: NewSpellingWord): string {
+  return word.word.toLowerCase();
+}
+
+// Move per-word entries (review schedule, stats) to new keys, dropping
+// entries that have no new key
+export function rekeyWordEntries<T>(
+  entries: Record<string, T>,
+  getNewKey: (key: string) => string | undefined
+): Record<string, T> {
+  const rekeyed: Record<string, T> = {};
+  Object.entries(entries).forEach(([key, entry]) => {
+    const newKey = getNewKey(key);
+    if (newKey !== undefined) rekeyed[newKey] = entry;
+  });
+  return rekeyed;
+}
+
+// Load default words from JSON. Their ids come from the word, so they're the
+// same every time the defaults are loaded.
+export const defaultWords: SpellingWord[] = (defaultWordsJson as NewSpellingWord[]).map(word => ({
+  ...word,
+  id: `default-${getWordKey(word)}`,
+}));
 
 export function getWordsByDifficulty(
   words: SpellingWord[],
@@ -43,7 +79,7 @@ export function getDifficultyColor(difficulty: 1 | 2 | 3): string {
 }
 
 // Check if the entered word matches either the primary or alternate spelling
-export function checkSpelling(entered: string, word: SpellingWord): boolean {
+export function checkSpelling(entered: string, word: NewSpellingWord): boolean {
   const enteredLower = entered.toLowerCase();
   const primaryMatch = enteredLower === word.word.toLowerCase();
   const alternateMatch = word.alternateSpelling 
@@ -0,0 +1,106 @@
+// Printable spelling tests: the words are shuffled from a seed, so the test
+// sheet and its answer key (or a reprint) always come out in the same order
+
+import { SpellingWord } from './words';
+import { CachedWordData } from '../services/dictionaryApi';
+
+export type WorksheetFontSize = 'small' | 'medium' | 'large';
+
+export interface WorksheetSettings {
+  columns: 1 | 2 | 3;
+  fontSize: WorksheetFontSize;
+  showDefinitions: boolean;
+  showExamples: boolean;
+}
+
+export const DEFAULT_WORKSHEET_SETTINGS: WorksheetSettings = {
+  columns: 2,
+  fontSize: 'medium',
+  showDefinitions: false,
+  showExamples: false,
+};
+
+export const BLANK = '________';
+
+export interface WorksheetItem {
+  number: number;
+  word: SpellingWord;
+  definition: string | null; // with the word blanked out
+  example: string | null;
+}
+
+// Small, fast PRNG (mulberry32); good enough for shuffling
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A short number that's easy to read off a printed sheet
+export function createSeed(): number {
+  return 1000 + Math.floor(Math.random() * 9000);
+}
+
+// Fisher-Yates shuffle driven by the seed
+export function seededShuffle<T>(array: T[], seed: number): T[] {
+  const random = createRandom(seed);
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Common endings
+const WORD_ENDINGS = '(?:s|es|ed|d|ing|er|est|ly)';
+
+// How a word changes before an ending: "hesitat" (hesitating), "carri"
+// (carried) and "runn" (running). These only count with an ending after them.
+function getStems(spelling: string): string[] {
+  const stems: string[] = [];
+  if (/e$/i.test(spelling)) stems.push(spelling.slice(0, -1));
+  if (/[^aeiou]y$/i.test(spelling)) stems.push(`${spelling.slice(0, -1)}i`);
+  if (/[^aeiou][aeiou][bdgklmnprtvz]$/i.test(spelling)) stems.push(spelling + spelling.slice(-1));
+  return stems;
+}
+
+// Replace the word (and forms like "jumped" for "jump" or "carried" for
+// "carry") so a clue doesn't give the answer away. Longer words that only
+// start the same ("catalog" for "cat") are left alone.
+export function blankWord(text: string, word: SpellingWord): string {
+  const forms = [word.word, word.alternateSpelling]
+    .filter((s): s is string => !!s)
+    .flatMap(spelling => [
+      `${escapeRegExp(spelling)}${WORD_ENDINGS}?`,
+      ...getStems(spelling).map(stem => `${escapeRegExp(stem)}${WORD_ENDINGS}`),
+    ]);
+  const pattern = new RegExp(`(^|[^a-zà-ÿ'])(?:${forms.join('|')})(?![a-zà-ÿ])`, 'gi');
+  return text.replace(pattern, (_, before) => before + BLANK);
+}
+
+// Numbered worksheet lines in the seeded order
+export function buildWorksheet(
+  words: SpellingWord[],
+  seed: number,
+  dictionary: Map<string, CachedWordData>
+): WorksheetItem[] {
+  return seededShuffle(words, seed).map((word, i) => {
+    const data = dictionary.get(word.word.toLowerCase());
+    return {
+      number: i + 1,
+      word,
+      definition: data?.definition ? blankWord(data.definition, word) : null,
+      example: data?.example ? blankWord(data.example, word) : null,
+    };
+  });
+}
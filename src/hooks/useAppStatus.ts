@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SW_UPDATE_EVENT } from '../serviceWorkerRegistration';
+
+// Network status and whether a new version of the app is waiting to take over
+export function useAppStatus() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    // An update may have finished installing before the app mounted
+    navigator.serviceWorker.getRegistration().then(registration => {
+      if (registration?.waiting && navigator.serviceWorker.controller) {
+        setUpdateAvailable(true);
+      }
+    });
+
+    const handleUpdate = () => setUpdateAvailable(true);
+    window.addEventListener(SW_UPDATE_EVENT, handleUpdate);
+    return () => window.removeEventListener(SW_UPDATE_EVENT, handleUpdate);
+  }, []);
+
+  // Let the waiting worker take over, then reload into the new version
+  const applyUpdate = useCallback(async () => {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (!registration?.waiting) {
+      window.location.reload();
+      return;
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+  }, []);
+
+  const dismissUpdate = useCallback(() => {
+    setUpdateAvailable(false);
+  }, []);
+
+  return {
+    isOnline,
+    updateAvailable,
+    applyUpdate,
+    dismissUpdate,
+  };
+}
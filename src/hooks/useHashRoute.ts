@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Route, parseRoute, formatRoute } from '../data/routes';
+
+// Current route from the URL hash; back and forward update it through hashchange
+export function useHashRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Go to a route; `replace` swaps the current history entry instead of adding one
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const hash = formatRoute(next);
+    if (options.replace) {
+      // replaceState doesn't fire hashchange
+      const { pathname, search } = window.location;
+      window.history.replaceState(null, '', `${pathname}${search}${hash}`);
+    } else if (window.location.hash !== hash) {
+      window.location.hash = hash;
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QuizResult, QuizEndReason } from '../components/SpellingQuiz';
+import { getProfileKey } from './useProfiles';
+
+export interface QuizSession {
+  id: string;
+  listName: string; // e.g. "All Words", "Hard", "Due Today" or a custom list name
+  startedAt: number;
+  endedAt: number;
+  endedBy: QuizEndReason;
+  results: QuizResult[];
+}
+
+const HISTORY_KEY = 'spellingBeeHistory';
+const MAX_SESSIONS = 200; // oldest sessions are dropped beyond this
+
+export function getSessionScore(session: QuizSession): { score: number; answered: number } {
+  const answered = session.results.filter(r => r.correct !== null);
+  return {
+    score: answered.filter(r => r.correct === true).length,
+    answered: answered.length,
+  };
+}
+
+export function useHistory(profileId: string) {
+  const [sessions, setSessions] = useState<QuizSession[]>([]);
+  const key = getProfileKey(HISTORY_KEY, profileId);
+
+  // Load history from localStorage
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(key);
+      setSessions(saved ? JSON.parse(saved) : []);
+    } catch (e) {
+      console.error('Failed to load quiz history:', e);
+    }
+  }, [key]);
+
+  // Save a finished or ended session (newest first)
+  const addSession = useCallback((session: Omit<QuizSession, 'id'>) => {
+    setSessions(prev => {
+      const newSession: QuizSession = {
+        ...session,
+        id: `${session.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      };
+      const updated = [newSession, ...prev].slice(0, MAX_SESSIONS);
+      localStorage.setItem(key, JSON.stringify(updated));
+      return updated;
+    });
+  }, [key]);
+
+  // Delete a single session
+  const deleteSession = useCallback((id: string) => {
+    setSessions(prev => {
+      const updated = prev.filter(s => s.id !== id);
+      localStorage.setItem(key, JSON.stringify(updated));
+      return updated;
+    });
+  }, [key]);
+
+  // Clear all history
+  const clearHistory = useCallback(() => {
+    setSessions([]);
+    localStorage.removeItem(key);
+  }, [key]);
+
+  return {
+    sessions,
+    addSession,
+    deleteSession,
+    clearHistory,
+  };
+}
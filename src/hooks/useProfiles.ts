@@ -0,0 +1,138 @@
+import { useState, useCallback } from 'react';
+import { deleteProfileData } from '../services/repositories';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+interface ProfilesState {
+  profiles: Profile[];
+  activeProfileId: string;
+  sharedWordBank: boolean; // true = all profiles use one word bank
+}
+
+const PROFILES_KEY = 'spellingBeeProfiles';
+const DEFAULT_PROFILE_ID = 'default';
+
+// Keys that held single-user data before profiles existed
+const LEGACY_PROFILE_KEYS = [
+  'spellingBeeSettings',
+  'spellingBeeCustomLists',
+  'spellingBeeSchedule',
+  'spellingBeeHighScore',
+  'spellingBeeHistory',
+];
+
+// Storage key for a piece of per-profile data
+export function getProfileKey(baseKey: string, profileId: string): string {
+  return `${baseKey}:${profileId}`;
+}
+
+// Move pre-profile data into the default profile
+function migrateLegacyData(): void {
+  for (const key of LEGACY_PROFILE_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      localStorage.setItem(getProfileKey(key, DEFAULT_PROFILE_ID), value);
+      localStorage.removeItem(key);
+    }
+  }
+}
+
+function loadProfiles(): ProfilesState {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (e) {
+    console.error('Failed to load profiles:', e);
+  }
+
+  // First run with profiles - existing data becomes the default profile
+  migrateLegacyData();
+  const initial: ProfilesState = {
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Speller 1', createdAt: Date.now() }],
+    activeProfileId: DEFAULT_PROFILE_ID,
+    sharedWordBank: true,
+  };
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(initial));
+  return initial;
+}
+
+export function useProfiles() {
+  // Loaded synchronously so profile-scoped hooks read the right keys on first render
+  const [state, setState] = useState<ProfilesState>(loadProfiles);
+
+  const update = useCallback((updater: (prev: ProfilesState) => ProfilesState) => {
+    setState(prev => {
+      const updated = updater(prev);
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  }, []);
+
+  // Add a profile and switch to it
+  const addProfile = useCallback((name: string) => {
+    const profile: Profile = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      createdAt: Date.now(),
+    };
+    update(prev => ({
+      ...prev,
+      profiles: [...prev.profiles, profile],
+      activeProfileId: profile.id,
+    }));
+  }, [update]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    update(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => (p.id === id ? { ...p, name } : p)),
+    }));
+  }, [update]);
+
+  // Delete a profile and all of its data (the last profile can't be deleted)
+  const deleteProfile = useCallback((id: string) => {
+    update(prev => {
+      if (prev.profiles.length <= 1) return prev;
+
+      const suffix = `:${id}`;
+      Object.keys(localStorage)
+        .filter(key => key.startsWith('spellingBee') && key.endsWith(suffix))
+        .forEach(key => localStorage.removeItem(key));
+      deleteProfileData(id).catch(e => console.error('Failed to delete profile data:', e));
+
+      const profiles = prev.profiles.filter(p => p.id !== id);
+      return {
+        ...prev,
+        profiles,
+        activeProfileId: prev.activeProfileId === id ? profiles[0].id : prev.activeProfileId,
+      };
+    });
+  }, [update]);
+
+  const switchProfile = useCallback((id: string) => {
+    update(prev => ({ ...prev, activeProfileId: id }));
+  }, [update]);
+
+  const setSharedWordBank = useCallback((shared: boolean) => {
+    update(prev => ({ ...prev, sharedWordBank: shared }));
+  }, [update]);
+
+  const activeProfile = state.profiles.find(p => p.id === state.activeProfileId) || state.profiles[0];
+
+  return {
+    profiles: state.profiles,
+    activeProfile,
+    sharedWordBank: state.sharedWordBank,
+    addProfile,
+    renameProfile,
+    deleteProfile,
+    switchProfile,
+    setSharedWordBank,
+  };
+}
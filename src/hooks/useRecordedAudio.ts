@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchAudioUrl } from '../services/dictionaryApi';
+import { getAudioBlob } from '../services/audioCache';
+
+// Finds and plays the recorded pronunciation of a word, caching the audio
+// for offline use. Does nothing when `enabled` is false.
+export function useRecordedAudio(word: string, enabled: boolean) {
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const finishRef = useRef<(() => void) | null>(null);
+
+  // Look up the recording for the current word
+  useEffect(() => {
+    setRecordingUrl(null);
+    if (!enabled || !word) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAudioUrl(word)
+      .then(url => {
+        if (!cancelled) setRecordingUrl(url);
+      })
+      .catch(e => console.error('Failed to find recording:', e))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [word, enabled]);
+
+  const stopRecording = useCallback(() => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    finishRef.current?.();
+    finishRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  // Resolves when the recording finishes (or is stopped); rejects if it can't play
+  const playRecording = useCallback(async () => {
+    if (!recordingUrl) {
+      throw new Error('No recording available');
+    }
+    stopRecording();
+
+    let src = recordingUrl;
+    let objectUrl: string | null = null;
+    try {
+      objectUrl = URL.createObjectURL(await getAudioBlob(recordingUrl));
+      src = objectUrl;
+    } catch (e) {
+      // Can't cache this file (offline or no CORS); let the audio element stream it
+      console.error('Failed to cache recording:', e);
+    }
+
+    const audio = new Audio(src);
+    audioRef.current = audio;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        finishRef.current = resolve;
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('Failed to play recording'));
+        audio.play().then(() => setIsPlaying(true), reject);
+      });
+    } finally {
+      if (audioRef.current === audio) {
+        audioRef.current = null;
+        finishRef.current = null;
+        setIsPlaying(false);
+      }
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    }
+  }, [recordingUrl, stopRecording]);
+
+  // Stop playback when the component unmounts
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  return {
+    recordingUrl,
+    isLoadingRecording: isLoading,
+    playRecording,
+    stopRecording,
+    isPlayingRecording: isPlaying,
+  };
+}
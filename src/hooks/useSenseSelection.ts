@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CachedWordData } from '../services/dictionaryApi';
+import { WordMeaning, WordSense } from '../services/dictionaryProviders';
+
+// Which part of speech and which sense of a word is being read out.
+// Resets to the first sense whenever the word data changes.
+export function useSenseSelection(wordData: CachedWordData | null) {
+  const meanings: WordMeaning[] = wordData?.meanings ?? [];
+  const [meaningIndex, setMeaningIndex] = useState(0);
+  const [senseIndex, setSenseIndex] = useState(0);
+  const [exampleIndex, setExampleIndex] = useState(0);
+
+  useEffect(() => {
+    setMeaningIndex(0);
+    setSenseIndex(0);
+    setExampleIndex(0);
+  }, [wordData]);
+
+  const meaning: WordMeaning | null = meanings[meaningIndex] ?? meanings[0] ?? null;
+  const sense: WordSense | null = meaning?.senses[senseIndex] ?? meaning?.senses[0] ?? null;
+  const examples = useMemo(
+    () => meaning ? meaning.senses.map(s => s.example).filter((e): e is string => !!e) : [],
+    [meaning]
+  );
+  const example = examples.length > 0 ? examples[exampleIndex % examples.length] : null;
+
+  const selectMeaning = useCallback((index: number) => {
+    setMeaningIndex(index);
+    setSenseIndex(0);
+    setExampleIndex(0);
+  }, []);
+
+  // Move to the next sense of the current part of speech and return it
+  const nextSense = useCallback((): WordSense | null => {
+    if (!meaning || meaning.senses.length === 0) return null;
+    const next = (senseIndex + 1) % meaning.senses.length;
+    setSenseIndex(next);
+
+    // Keep the example in step with the sense when it has one
+    const nextExample = meaning.senses[next].example;
+    if (nextExample) {
+      setExampleIndex(examples.indexOf(nextExample));
+    }
+    return meaning.senses[next];
+  }, [meaning, senseIndex, examples]);
+
+  // Move to the next example of the current part of speech and return it
+  const nextExample = useCallback((): string | null => {
+    if (examples.length === 0) return null;
+    const next = (exampleIndex + 1) % examples.length;
+    setExampleIndex(next);
+    return examples[next];
+  }, [examples, exampleIndex]);
+
+  return {
+    meanings,
+    meaningIndex: meaning ? meanings.indexOf(meaning) : 0,
+    senseIndex: sense && meaning ? meaning.senses.indexOf(sense) : 0,
+    meaning,
+    sense,
+    example,
+    exampleCount: examples.length,
+    selectMeaning,
+    nextSense,
+    nextExample,
+  };
+}
@@ -1,117 +1,274 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SpellingWord, defaultWords } from '../data/words';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SpellingWord, NewSpellingWord, defaultWords, getWordKey, withWordId, rekeyWordEntries } from '../data/words';
+import { ScheduleMap, applyResults } from '../data/scheduler';
+import { StatsMap, applyResultsToStats } from '../data/wordStats';
+import { WorksheetSettings, DEFAULT_WORKSHEET_SETTINGS } from '../data/worksheet';
+import { QuizSetupOptions, DEFAULT_QUIZ_SETUP } from '../data/quizSetup';
+import { resolveListWords, removeWordsFromLists, remapLists } from '../data/customLists';
+import { SHARED_WORD_BANK } from '../services/database';
+import { loadDictionaryPreferences } from '../services/dictionaryProviders';
+import {
+  settingsRepository,
+  wordsRepository,
+  listsRepository,
+  scheduleRepository,
+  statsRepository,
+} from '../services/repositories';
 
 export interface CustomWordList {
   name: string;
-  wordIds: string[]; // word strings
+  wordIds: string[]; // ids of words in the word bank
   createdAt: number;
 }
 
+// 'paper' = write it down and self-grade, 'typed' = type into the letter slots,
+// 'spoken' = spell aloud for speech recognition
+export type QuizMode = 'paper' | 'typed' | 'spoken';
+
+// What running out of time on a word counts as
+export type TimeoutAction = 'miss' | 'skip';
+
 export interface AppSettings {
   speechRate: number; // 0.5 to 2
   speechVoice: string; // voice URI or empty for default
+  preferRecordedAudio: boolean; // play dictionary recordings instead of TTS when available
+  quizMode: QuizMode;
+  timerEnabled: boolean;
+  timeLimitSeconds: number; // per word
+  timeoutAction: TimeoutAction;
+  worksheet: WorksheetSettings; // layout of printed tests
+  adaptiveQuizLength: number; // most words in an adaptive quiz
+  quizSetup: QuizSetupOptions; // last-used quiz setup
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   speechRate: 0.9,
   speechVoice: '',
+  preferRecordedAudio: true,
+  quizMode: 'paper',
+  timerEnabled: false,
+  timeLimitSeconds: 30,
+  timeoutAction: 'miss',
+  worksheet: DEFAULT_WORKSHEET_SETTINGS,
+  adaptiveQuizLength: 20,
+  quizSetup: DEFAULT_QUIZ_SETUP,
 };
 
-const STORAGE_KEY = 'spellingBeeSettings';
-const WORDS_KEY = 'spellingBeeWords';
-const CUSTOM_LISTS_KEY = 'spellingBeeCustomLists';
+// Writes happen in the background; React state is already up to date
+function persist(write: Promise<void>): void {
+  write.catch(e => console.error('Failed to save settings:', e));
+}
+
+// Settings, lists and progress belong to a profile; the word bank is
+// either shared by all profiles or kept per profile
+export function useSettings(profileId: string, sharedWordBank: boolean) {
+  const keys = useMemo(() => ({
+    profile: profileId,
+    words: sharedWordBank ? SHARED_WORD_BANK : profileId,
+  }), [profileId, sharedWordBank]);
 
-export function useSettings() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [words, setWords] = useState<SpellingWord[]>([]);
   const [customLists, setCustomLists] = useState<CustomWordList[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleMap>({});
+  const [stats, setStats] = useState<StatsMap>({});
+  // The keys the state above was loaded for. Until they match the current
+  // keys the state belongs to the previous profile, so nothing may be saved.
+  const [loadedKeys, setLoadedKeys] = useState<typeof keys | null>(null);
+  const isLoaded = loadedKeys === keys;
 
-  // Load settings, words, and custom lists from localStorage
+  // Load settings, words, lists and progress (again when the profile changes)
   useEffect(() => {
-    try {
-      // Load settings
-      const savedSettings = localStorage.getItem(STORAGE_KEY);
-      if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(prev => ({ ...prev, ...parsed }));
-      }
-      
-      // Load words - if none saved, use default words and save them
-      const savedWords = localStorage.getItem(WORDS_KEY);
-      if (savedWords) {
-        setWords(JSON.parse(savedWords));
-      } else {
-        // First time load - populate with default words
-        setWords(defaultWords);
-        localStorage.setItem(WORDS_KEY, JSON.stringify(defaultWords));
-      }
+    let cancelled = false;
+    setSettings(DEFAULT_SETTINGS);
+    setWords([]);
+    setCustomLists([]);
+    setSchedule({});
+    setStats({});
 
-      // Load custom lists
-      const savedLists = localStorage.getItem(CUSTOM_LISTS_KEY);
-      if (savedLists) {
-        setCustomLists(JSON.parse(savedLists));
+    const load = async () => {
+      try {
+        const [savedSettings, savedWords, savedLists, savedSchedule, savedStats] = await Promise.all([
+          settingsRepository.get(keys.profile),
+          wordsRepository.get(keys.words),
+          listsRepository.get(keys.profile),
+          scheduleRepository.get(keys.profile),
+          statsRepository.get(keys.profile),
+          // App-wide, but the dictionary screens read them synchronously
+          loadDictionaryPreferences(),
+        ]);
+
+        // First time load - a new per-profile bank starts as a copy of the shared one
+        let initialWords = savedWords;
+        if (!initialWords) {
+          initialWords = (await wordsRepository.get(SHARED_WORD_BANK)) ?? defaultWords;
+          persist(wordsRepository.put(keys.words, initialWords));
+        }
+
+        if (cancelled) return;
+        setSettings({ ...DEFAULT_SETTINGS, ...savedSettings });
+        setWords(initialWords);
+        setCustomLists(savedLists ?? []);
+        setSchedule(savedSchedule ?? {});
+        setStats(savedStats ?? {});
+      } catch (e) {
+        console.error('Failed to load settings:', e);
+        // Fallback to defaults
+        if (!cancelled) setWords(defaultWords);
       }
-    } catch (e) {
-      console.error('Failed to load settings:', e);
-      // Fallback to defaults
-      setWords(defaultWords);
-    }
-    setIsLoaded(true);
-  }, []);
+      if (!cancelled) setLoadedKeys(keys);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [keys]);
 
-  // Save settings to localStorage
+  // Save settings
   const saveSettings = useCallback((newSettings: Partial<AppSettings>) => {
     setSettings(prev => {
       const updated = { ...prev, ...newSettings };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+      persist(settingsRepository.put(keys.profile, updated));
+      return updated;
+    });
+  }, [keys]);
+
+  // Save lists changed as a side effect of a word bank change
+  const updateLists = useCallback((change: (lists: CustomWordList[]) => CustomWordList[]) => {
+    setCustomLists(prev => {
+      const updated = change(prev);
+      if (updated.some((list, i) => list !== prev[i])) {
+        persist(listsRepository.put(keys.profile, updated));
+      }
       return updated;
     });
-  }, []);
+  }, [keys]);
+
+  // Move progress onto a replacement bank's ids, matching words by spelling
+  const remapProgress = useCallback((oldWords: SpellingWord[], newWords: SpellingWord[]) => {
+    const oldKeys = new Map(oldWords.map(w => [w.id, getWordKey(w)]));
+    const newIds = new Map(newWords.map(w => [getWordKey(w), w.id]));
+    const getNewId = (id: string) => {
+      const key = oldKeys.get(id);
+      return key === undefined ? undefined : newIds.get(key);
+    };
+    setSchedule(prev => {
+      const updated = rekeyWordEntries(prev, getNewId);
+      persist(scheduleRepository.put(keys.profile, updated));
+      return updated;
+    });
+    setStats(prev => {
+      const updated = rekeyWordEntries(prev, getNewId);
+      persist(statsRepository.put(keys.profile, updated));
+      return updated;
+    });
+  }, [keys]);
+
+  // Swap the whole bank, keeping list entries and progress for words still in it
+  const replaceWords = useCallback((newWords: SpellingWord[]) => {
+    updateLists(lists => remapLists(lists, words, newWords));
+    remapProgress(words, newWords);
+    setWords(newWords);
+    persist(wordsRepository.put(keys.words, newWords));
+  }, [keys, words, updateLists, remapProgress]);
 
   // Add a new word
-  const addWord = useCallback((word: SpellingWord) => {
+  const addWord = useCallback((word: NewSpellingWord | SpellingWord) => {
+    setWords(prev => {
+      const updated = [...prev, withWordId(word)];
+      persist(wordsRepository.put(keys.words, updated));
+      return updated;
+    });
+  }, [keys]);
+
+  // Remove words, and take them out of this profile's lists
+  const removeWords = useCallback((ids: string[]) => {
+    const removed = new Set(ids);
     setWords(prev => {
-      const updated = [...prev, word];
-      localStorage.setItem(WORDS_KEY, JSON.stringify(updated));
+      const updated = prev.filter(w => !removed.has(w.id));
+      persist(wordsRepository.put(keys.words, updated));
       return updated;
     });
-  }, []);
+    updateLists(lists => removeWordsFromLists(lists, removed));
+  }, [keys, updateLists]);
 
-  // Remove a word by index
-  const removeWord = useCallback((index: number) => {
+  // Make the same change to several words, e.g. setting their difficulty
+  const updateWords = useCallback((ids: string[], changes: Partial<NewSpellingWord>) => {
+    const changed = new Set(ids);
     setWords(prev => {
-      const updated = prev.filter((_, i) => i !== index);
-      localStorage.setItem(WORDS_KEY, JSON.stringify(updated));
+      const updated = prev.map(w => changed.has(w.id) ? { ...w, ...changes, id: w.id } : w);
+      persist(wordsRepository.put(keys.words, updated));
       return updated;
     });
-  }, []);
+  }, [keys]);
 
-  // Update a word at index
-  const updateWord = useCallback((index: number, word: SpellingWord) => {
+  // Edit a word; lists keep it because its id doesn't change
+  const updateWord = useCallback((id: string, changes: Partial<NewSpellingWord>) => {
+    updateWords([id], changes);
+  }, [updateWords]);
+
+  // Import words: 'merge' adds words not already in the bank, 'replace' swaps the whole bank
+  const importWords = useCallback((imported: (NewSpellingWord | SpellingWord)[], mode: 'merge' | 'replace') => {
+    const importedWords = imported.map(withWordId);
+    if (mode === 'replace') {
+      replaceWords(importedWords);
+      return;
+    }
     setWords(prev => {
-      const updated = [...prev];
-      updated[index] = word;
-      localStorage.setItem(WORDS_KEY, JSON.stringify(updated));
+      const existing = new Set(prev.map(getWordKey));
+      const updated = [...prev, ...importedWords.filter(w => !existing.has(getWordKey(w)))];
+      persist(wordsRepository.put(keys.words, updated));
       return updated;
     });
-  }, []);
+  }, [keys, replaceWords]);
 
   // Reset words to default list
   const resetWords = useCallback(() => {
-    setWords(defaultWords);
-    localStorage.setItem(WORDS_KEY, JSON.stringify(defaultWords));
-  }, []);
+    replaceWords(defaultWords);
+  }, [replaceWords]);
 
-  // Reset everything (settings and words)
+  // Reset this profile's settings, lists and progress, and its words unless the bank is shared
   const resetAll = useCallback(() => {
     setSettings(DEFAULT_SETTINGS);
-    setWords(defaultWords);
     setCustomLists([]);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(DEFAULT_SETTINGS));
-    localStorage.setItem(WORDS_KEY, JSON.stringify(defaultWords));
-    localStorage.removeItem(CUSTOM_LISTS_KEY);
-  }, []);
+    setSchedule({});
+    setStats({});
+    persist(settingsRepository.put(keys.profile, DEFAULT_SETTINGS));
+    // The shared bank belongs to every profile, so only a profile's own bank is reset
+    if (keys.words !== SHARED_WORD_BANK) {
+      setWords(defaultWords);
+      persist(wordsRepository.put(keys.words, defaultWords));
+    }
+    persist(listsRepository.delete(keys.profile));
+    persist(scheduleRepository.delete(keys.profile));
+    persist(statsRepository.delete(keys.profile));
+  }, [keys]);
+
+  // Replace settings, words and lists with those from a backup. Progress
+  // isn't in backups, so it carries over to the restored words.
+  const restoreData = useCallback((data: { settings: Partial<AppSettings>; words: SpellingWord[]; customLists: CustomWordList[] }) => {
+    const restoredSettings = { ...DEFAULT_SETTINGS, ...data.settings };
+    remapProgress(words, data.words);
+    setSettings(restoredSettings);
+    setWords(data.words);
+    setCustomLists(data.customLists);
+    persist(settingsRepository.put(keys.profile, restoredSettings));
+    persist(wordsRepository.put(keys.words, data.words));
+    persist(listsRepository.put(keys.profile, data.customLists));
+  }, [keys, words, remapProgress]);
+
+  // Update the review schedule and word statistics from a finished quiz
+  const recordQuizResults = useCallback((results: { word: SpellingWord; correct: boolean | null }[]) => {
+    setSchedule(prev => {
+      const updated = applyResults(prev, results);
+      persist(scheduleRepository.put(keys.profile, updated));
+      return updated;
+    });
+    setStats(prev => {
+      const updated = applyResultsToStats(prev, results);
+      persist(statsRepository.put(keys.profile, updated));
+      return updated;
+    });
+  }, [keys]);
 
   // === Custom Lists CRUD ===
 
@@ -135,25 +292,25 @@ export function useSettings() {
         updated = [...prev, newList];
       }
       
-      localStorage.setItem(CUSTOM_LISTS_KEY, JSON.stringify(updated));
+      persist(listsRepository.put(keys.profile, updated));
       return updated;
     });
-  }, []);
+  }, [keys]);
 
   // Delete a custom list by name
   const deleteCustomList = useCallback((name: string) => {
     setCustomLists(prev => {
       const updated = prev.filter(l => l.name !== name);
-      localStorage.setItem(CUSTOM_LISTS_KEY, JSON.stringify(updated));
+      persist(listsRepository.put(keys.profile, updated));
       return updated;
     });
-  }, []);
+  }, [keys]);
 
-  // Get words for a custom list
+  // Get words for a custom list, in list order (missing words are left out)
   const getWordsForList = useCallback((listName: string): SpellingWord[] => {
     const list = customLists.find(l => l.name === listName);
     if (!list) return [];
-    return words.filter(w => list.wordIds.includes(w.word));
+    return resolveListWords(list, words).words;
   }, [customLists, words]);
 
   // Get words by difficulty (preset lists)
@@ -166,13 +323,19 @@ export function useSettings() {
     settings,
     words,
     customLists,
+    schedule,
+    stats,
     isLoaded,
     saveSettings,
     addWord,
-    removeWord,
+    removeWords,
     updateWord,
+    updateWords,
+    importWords,
     resetWords,
     resetAll,
+    restoreData,
+    recordQuizResults,
     // Custom lists
     saveCustomList,
     deleteCustomList,
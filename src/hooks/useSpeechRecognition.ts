@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CreateRecognizer,
+  ListeningSession,
+  getBrowserRecognizer,
+  listen,
+} from '../services/speechRecognition';
+
+// Listens to one spoken answer at a time. `createRecognizer` defaults to the
+// browser's; null means speech recognition isn't supported here.
+export function useSpeechRecognition(createRecognizer: CreateRecognizer | null = getBrowserRecognizer()) {
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [isFinished, setIsFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<ListeningSession | null>(null);
+  const createRef = useRef(createRecognizer);
+  createRef.current = createRecognizer;
+
+  const cancel = useCallback(() => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    setIsListening(false);
+  }, []);
+
+  const start = useCallback(() => {
+    const create = createRef.current;
+    if (!create) return;
+
+    sessionRef.current?.cancel();
+    setTranscript('');
+    setIsFinished(false);
+    setError(null);
+    setIsListening(true);
+    try {
+      sessionRef.current = listen(create, {
+        onTranscript: setTranscript,
+        onEnd: (heard) => {
+          sessionRef.current = null;
+          setTranscript(heard);
+          setIsFinished(true);
+          setIsListening(false);
+        },
+        onError: setError,
+      });
+    } catch (e) {
+      // start() throws if the recognizer is already running elsewhere
+      console.error('Failed to start speech recognition:', e);
+      setError('Could not start listening. Try again!');
+      setIsListening(false);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+  }, []);
+
+  // Forget the last answer, e.g. for a new word
+  const reset = useCallback(() => {
+    cancel();
+    setTranscript('');
+    setIsFinished(false);
+    setError(null);
+  }, [cancel]);
+
+  // Don't keep the microphone open after leaving the quiz
+  useEffect(() => cancel, [cancel]);
+
+  return {
+    isSupported: createRecognizer !== null,
+    isListening,
+    isFinished, // the speaker is done and `transcript` is final
+    transcript,
+    error,
+    start,
+    stop,
+    reset,
+  };
+}
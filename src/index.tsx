@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -13,6 +14,11 @@ root.render(
   </React.StrictMode>
 );
 
+// Work offline and install to the home screen; updates wait for the user (see AppStatus)
+serviceWorkerRegistration.register({
+  onUpdate: () => window.dispatchEvent(new Event(serviceWorkerRegistration.SW_UPDATE_EVENT)),
+});
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
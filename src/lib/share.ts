@@ -0,0 +1,20 @@
+// Hand a link to the system share sheet (tablets, phones) or the clipboard,
+// falling back to a prompt the user can copy from
+export async function shareLink(url: string, title: string, copiedMessage: string): Promise<void> {
+  if (navigator.share) {
+    try {
+      await navigator.share({ title, url });
+      return;
+    } catch (e) {
+      // Cancelled by the user
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    alert(copiedMessage);
+  } catch (e) {
+    window.prompt('Copy this link:', url);
+  }
+}
@@ -0,0 +1,76 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Service worker: precaches the app shell (the build includes the default
+// word list and offline definitions, which are bundled with the app) and
+// caches dictionary lookups and recorded pronunciations as they are used.
+// Only built for production; see serviceWorkerRegistration.ts.
+
+import { clientsClaim } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { StaleWhileRevalidate, CacheFirst, NetworkFirst } from 'workbox-strategies';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { RangeRequestsPlugin } from 'workbox-range-requests';
+
+declare const self: ServiceWorkerGlobalScope;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+clientsClaim();
+
+// Everything the build produced, keyed by content hash
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Navigations get index.html; routes live in the hash so the path is always the app root
+const fileExtensionRegexp = /\/[^/?]+\.[^/]+$/;
+registerRoute(
+  ({ request, url }) => request.mode === 'navigate'
+    && !url.pathname.startsWith('/_')
+    && !url.pathname.match(fileExtensionRegexp),
+  createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`)
+);
+
+// Icons and other files copied from public/
+registerRoute(
+  ({ url }) => url.origin === self.location.origin && /\.(png|ico|json)$/.test(url.pathname),
+  new StaleWhileRevalidate({
+    cacheName: 'spellingBeeStatic',
+    plugins: [new ExpirationPlugin({ maxEntries: 50 })],
+  })
+);
+
+// Online dictionaries: fresh when possible, the last answer when offline
+registerRoute(
+  ({ url }) => url.hostname === 'api.dictionaryapi.dev' || url.hostname === 'www.dictionaryapi.com',
+  new NetworkFirst({
+    cacheName: 'spellingBeeDictionary',
+    networkTimeoutSeconds: 5,
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [200, 404] }),
+      new ExpirationPlugin({ maxEntries: 1000, maxAgeSeconds: 30 * DAY_SECONDS }),
+    ],
+  })
+);
+
+// Recorded pronunciations never change, so keep them once fetched.
+// Audio elements ask for byte ranges, which are served from the full cached file.
+registerRoute(
+  ({ request, url }) => request.destination === 'audio' || /\.(mp3|wav|ogg)$/.test(url.pathname),
+  new CacheFirst({
+    cacheName: 'spellingBeeAudioRuntime',
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+      new RangeRequestsPlugin(),
+      new ExpirationPlugin({ maxEntries: 1000, maxAgeSeconds: 90 * DAY_SECONDS }),
+    ],
+  })
+);
+
+// The page asks a waiting worker to take over when the user accepts an update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
@@ -0,0 +1,60 @@
+// Recorded pronunciation audio, cached as blobs in the Cache Storage API
+// so a recording keeps working offline after it has been fetched once
+
+const AUDIO_CACHE_NAME = 'spellingBeeAudio';
+
+// Blobs already loaded this session
+const memoryCache = new Map<string, Blob>();
+
+function hasCacheStorage(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+async function readFromCache(url: string): Promise<Blob | null> {
+  if (!hasCacheStorage()) return null;
+  try {
+    const cache = await caches.open(AUDIO_CACHE_NAME);
+    const response = await cache.match(url);
+    return response ? await response.blob() : null;
+  } catch (e) {
+    console.error('Failed to read audio cache:', e);
+    return null;
+  }
+}
+
+async function writeToCache(url: string, blob: Blob): Promise<void> {
+  if (!hasCacheStorage()) return;
+  try {
+    const cache = await caches.open(AUDIO_CACHE_NAME);
+    await cache.put(url, new Response(blob, { headers: { 'Content-Type': blob.type } }));
+  } catch (e) {
+    console.error('Failed to save audio cache:', e);
+  }
+}
+
+// Get the audio file at `url`, from the cache if possible
+export async function getAudioBlob(url: string): Promise<Blob> {
+  const inMemory = memoryCache.get(url);
+  if (inMemory) return inMemory;
+
+  let blob = await readFromCache(url);
+  if (!blob) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Audio request failed with ${response.status}`);
+    }
+    blob = await response.blob();
+    await writeToCache(url, blob);
+  }
+
+  memoryCache.set(url, blob);
+  return blob;
+}
+
+// Clear all cached recordings
+export async function clearAudioCache(): Promise<void> {
+  memoryCache.clear();
+  if (hasCacheStorage()) {
+    await caches.delete(AUDIO_CACHE_NAME);
+  }
+}
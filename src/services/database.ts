@@ -0,0 +1,274 @@
+// IndexedDB storage: one versioned database with an object store per kind of
+// data. Schema changes are added as new migration steps, never by editing old ones.
+
+import { CustomWordList } from '../hooks/useSettings';
+import { LegacyWord, migrateToWordIds } from '../data/customLists';
+import { SpellingWord, defaultWords, getWordKey, rekeyWordEntries } from '../data/words';
+
+export type StoreName = 'settings' | 'words' | 'lists' | 'schedule' | 'stats' | 'dictionaryCache' | 'meta';
+
+const DB_NAME = 'spellingBee';
+
+// Word bank key used when all profiles share one bank
+export const SHARED_WORD_BANK = 'shared';
+
+// Read a whole store inside an upgrade, where only callbacks keep the
+// transaction alive
+function readStore<T>(store: IDBObjectStore, done: (records: Map<string, T>) => void): void {
+  const keysRequest = store.getAllKeys();
+  keysRequest.onsuccess = () => {
+    const valuesRequest = store.getAll();
+    valuesRequest.onsuccess = () => {
+      done(new Map(keysRequest.result.map((key, i) => [String(key), valuesRequest.result[i]])));
+    };
+  };
+}
+
+// Schedule and stats from before they were keyed by word id were keyed by
+// spelling. A profile's words are looked up in its own bank, then the shared
+// one, then the defaults (which aren't stored until a bank is saved).
+function rekeyBySpelling<T>(
+  progress: Map<string, Record<string, T>>,
+  banks: Map<string, SpellingWord[]>
+): Map<string, Record<string, T>> {
+  const rekeyed = new Map<string, Record<string, T>>();
+  progress.forEach((entries, profileId) => {
+    const ids = new Map<string, string>();
+    [banks.get(profileId), banks.get(SHARED_WORD_BANK), defaultWords].forEach(words => {
+      words?.forEach(w => {
+        if (!ids.has(getWordKey(w))) ids.set(getWordKey(w), w.id);
+      });
+    });
+    rekeyed.set(profileId, rekeyWordEntries(entries, key => ids.get(key)));
+  });
+  return rekeyed;
+}
+
+// Each step upgrades the schema by one version; the database version is the
+// number of steps. A step calls done once its writes are queued, so the next
+// step reads what it wrote.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction, done: () => void) => void)[] = [
+  // 1: initial stores, all keyed by profile id (or word bank / cache key)
+  (db, transaction, done) => {
+    db.createObjectStore('settings');
+    db.createObjectStore('words');
+    db.createObjectStore('lists');
+    db.createObjectStore('schedule');
+    db.createObjectStore('stats');
+    db.createObjectStore('dictionaryCache');
+    db.createObjectStore('meta');
+    done();
+  },
+  // 2: words get stable ids, and lists hold those ids instead of word strings
+  (db, transaction, done) => {
+    const wordsStore = transaction.objectStore('words');
+    const listsStore = transaction.objectStore('lists');
+    readStore<LegacyWord[]>(wordsStore, banks => {
+      readStore<CustomWordList[]>(listsStore, lists => {
+        const migrated = migrateToWordIds(banks, lists);
+        migrated.banks.forEach((words, key) => wordsStore.put(words, key));
+        migrated.lists.forEach((profileLists, key) => listsStore.put(profileLists, key));
+        done();
+      });
+    });
+  },
+  // 3: schedule and stats are keyed by word id instead of spelling
+  (db, transaction, done) => {
+    const scheduleStore = transaction.objectStore('schedule');
+    const statsStore = transaction.objectStore('stats');
+    readStore<SpellingWord[]>(transaction.objectStore('words'), banks => {
+      readStore<Record<string, unknown>>(scheduleStore, schedules => {
+        readStore<Record<string, unknown>>(statsStore, stats => {
+          rekeyBySpelling(schedules, banks).forEach((schedule, key) => scheduleStore.put(schedule, key));
+          rekeyBySpelling(stats, banks).forEach((profileStats, key) => statsStore.put(profileStats, key));
+          done();
+        });
+      });
+    });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// localStorage keys from before IndexedDB, and where their data now lives
+const LEGACY_STORES = new Map<string, StoreName>([
+  ['spellingBeeSettings', 'settings'],
+  ['spellingBeeWords', 'words'],
+  ['spellingBeeCustomLists', 'lists'],
+  ['spellingBeeSchedule', 'schedule'],
+  ['spellingBeeWordStats', 'stats'],
+]);
+const LEGACY_DICTIONARY_CACHE_KEY = 'spellingBeeDictionaryCache';
+
+// Records in the meta store
+const LEGACY_IMPORTED = 'legacyImported';
+export const DICTIONARY_SETTINGS = 'dictionarySettings';
+export const DICTIONARY_OVERRIDES = 'dictionaryOverrides';
+
+// localStorage keys from before IndexedDB that became meta records
+const LEGACY_META_RECORDS = new Map([
+  ['spellingBeeDictionarySettings', DICTIONARY_SETTINGS],
+  ['spellingBeeDictionaryOverrides', DICTIONARY_OVERRIDES],
+]);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Copy spellingBee* keys into the database once, then remove them.
+// Keys without a profile suffix predate profiles and belong to the default profile.
+async function importLegacyStorage(db: IDBDatabase): Promise<void> {
+  const meta = db.transaction('meta', 'readonly').objectStore('meta');
+  if (await promisifyRequest(meta.get(LEGACY_IMPORTED))) return;
+
+  const stores: StoreName[] = ['settings', 'words', 'lists', 'schedule', 'stats', 'dictionaryCache', 'meta'];
+  const transaction = db.transaction(stores, 'readwrite');
+  const imported: string[] = [];
+  // Words, lists and progress are stored together once they have word ids
+  const banks = new Map<string, LegacyWord[]>();
+  const lists = new Map<string, CustomWordList[]>();
+  const progress = new Map<StoreName, Map<string, Record<string, unknown>>>([
+    ['schedule', new Map()],
+    ['stats', new Map()],
+  ]);
+
+  for (const key of Object.keys(localStorage)) {
+    const [baseKey, profileId] = key.split(':');
+    const storeName = LEGACY_STORES.get(baseKey);
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+
+    try {
+      if (key === LEGACY_DICTIONARY_CACHE_KEY) {
+        const cache: Record<string, unknown> = JSON.parse(value);
+        const store = transaction.objectStore('dictionaryCache');
+        Object.entries(cache).forEach(([cacheKey, entry]) => store.put(entry, cacheKey));
+        imported.push(key);
+      } else if (LEGACY_META_RECORDS.has(key)) {
+        transaction.objectStore('meta').put(JSON.parse(value), LEGACY_META_RECORDS.get(key)!);
+        imported.push(key);
+      } else if (storeName) {
+        const recordKey = profileId ?? (storeName === 'words' ? SHARED_WORD_BANK : 'default');
+        if (storeName === 'words') {
+          banks.set(recordKey, JSON.parse(value));
+        } else if (storeName === 'lists') {
+          lists.set(recordKey, JSON.parse(value));
+        } else if (progress.has(storeName)) {
+          progress.get(storeName)!.set(recordKey, JSON.parse(value));
+        } else {
+          transaction.objectStore(storeName).put(JSON.parse(value), recordKey);
+        }
+        imported.push(key);
+      }
+    } catch (e) {
+      console.error(`Failed to import ${key}:`, e);
+    }
+  }
+
+  const migrated = migrateToWordIds(banks, lists);
+  migrated.banks.forEach((words, key) => transaction.objectStore('words').put(words, key));
+  migrated.lists.forEach((profileLists, key) => transaction.objectStore('lists').put(profileLists, key));
+  progress.forEach((records, storeName) => {
+    rekeyBySpelling(records, migrated.banks).forEach((entries, key) => transaction.objectStore(storeName).put(entries, key));
+  });
+
+  transaction.objectStore('meta').put(Date.now(), LEGACY_IMPORTED);
+  await transactionDone(transaction);
+  imported.forEach(key => localStorage.removeItem(key));
+}
+
+// Open (and upgrade) the database once per page load
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+        const migrateFrom = (version: number) => {
+          if (version < DB_VERSION) {
+            MIGRATIONS[version](request.result, transaction, () => migrateFrom(version + 1));
+          }
+        };
+        migrateFrom(event.oldVersion);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+    }).then(async db => {
+      await importLegacyStorage(db);
+      return db;
+    });
+
+    // Let a later call try again
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export interface Repository<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<Map<string, T>>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Typed access to one object store
+export function createRepository<T>(storeName: StoreName): Repository<T> {
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = transactionDone(transaction);
+    const result = await promisifyRequest(action(transaction.objectStore(storeName)));
+    await done;
+    return result;
+  };
+
+  return {
+    get: key => withStore('readonly', store => store.get(key) as IDBRequest<T | undefined>),
+
+    getAll: async () => {
+      const db = await openDatabase();
+      const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+      const [keys, values] = await Promise.all([
+        promisifyRequest(store.getAllKeys()),
+        promisifyRequest(store.getAll() as IDBRequest<T[]>),
+      ]);
+      return new Map(keys.map((key, i) => [String(key), values[i]]));
+    },
+
+    put: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+
+    delete: async key => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+
+    clear: async () => {
+      await withStore('readwrite', store => store.clear());
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { fetchWordData, getCachedWord } from './dictionaryApi';
+import {
+  createStandInProvider,
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+  saveDictionarySettings,
+  parseMerriamWebsterResponse,
+} from './dictionaryProviders';
+
+// Enable only the given providers, in order, so no network requests are made
+function enableOnly(ids: string[]) {
+  const others = getRegisteredProviders().filter(p => !ids.includes(p.id));
+  saveDictionarySettings({
+    providers: [
+      ...ids.map(id => ({ id, enabled: true })),
+      ...others.map(p => ({ id: p.id, enabled: false })),
+    ],
+    merriamWebsterApiKey: '',
+  });
+}
+
+const first = createStandInProvider({ apple: { definition: 'A red fruit.' } }, 'first');
+const second = createStandInProvider({
+  apple: { definition: 'A tech company.' },
+  banana: { definition: 'A yellow fruit.', example: 'I ate a banana.' },
+}, 'second');
+
+beforeEach(() => {
+  localStorage.clear();
+  registerProvider(first);
+  registerProvider(second);
+  enableOnly(['first', 'second']);
+});
+
+afterEach(() => {
+  unregisterProvider('first');
+  unregisterProvider('second');
+});
+
+test('uses the first provider that knows the word', async () => {
+  const apple = await fetchWordData('Apple');
+  expect(apple.definition).toBe('A red fruit.');
+  expect(apple.source).toBe('first');
+
+  const banana = await fetchWordData('banana');
+  expect(banana.example).toBe('I ate a banana.');
+  expect(banana.source).toBe('second');
+});
+
+test('respects provider order and enabled flags', async () => {
+  enableOnly(['second', 'first']);
+  expect((await fetchWordData('apple')).source).toBe('second');
+
+  enableOnly(['first']);
+  expect((await fetchWordData('banana')).notFound).toBe(true);
+});
+
+test('reports words no provider knows as not found', () => {
+  const missing = getCachedWord('cherry');
+  expect(missing?.notFound).toBe(true);
+  expect(missing?.source).toBeNull();
+});
+
+test('normalises Merriam-Webster style entries', () => {
+  const result = parseMerriamWebsterResponse('heron', [{
+    meta: { id: 'heron' },
+    hwi: { hw: 'her*on', prs: [{ mw: 'ˈher-ən', sound: { audio: 'heron001' } }] },
+    fl: 'noun',
+    shortdef: ['any of various long-necked wading birds'],
+    def: [{ sseq: [[['sense', { dt: [['text', '{bc}a bird'], ['vis', [{ t: 'a {wi}heron{/wi} in the marsh' }]]] }]]] }],
+  }]);
+  expect(result).toEqual({
+    word: 'heron',
+    definition: 'a bird',
+    example: 'a heron in the marsh',
+    partOfSpeech: 'noun',
+    meanings: [{
+      partOfSpeech: 'noun',
+      senses: [{ definition: 'a bird', example: 'a heron in the marsh', synonyms: [], antonyms: [] }],
+      synonyms: [],
+      antonyms: [],
+    }],
+    audioUrl: 'https://media.merriam-webster.com/audio/prons/en/us/mp3/h/heron001.mp3',
+    phonetic: 'ˈher-ən',
+  });
+  expect(parseMerriamWebsterResponse('herron', ['heron', 'herring'])).toBeNull();
+});
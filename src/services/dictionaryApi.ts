@@ -1,209 +1,165 @@
-// Free Dictionary API Service with localStorage caching
+// Dictionary service: asks each enabled provider in order and caches
+// results from remote providers in IndexedDB
 
-export interface DictionaryPhonetic {
-  text?: string;
-  audio?: string;
-}
-
-export interface DictionaryDefinition {
-  definition: string;
-  example?: string;
-  synonyms?: string[];
-  antonyms?: string[];
-}
-
-export interface DictionaryMeaning {
-  partOfSpeech: string;
-  definitions: DictionaryDefinition[];
-}
-
-export interface DictionaryEntry {
-  word: string;
-  phonetic?: string;
-  phonetics?: DictionaryPhonetic[];
-  meanings: DictionaryMeaning[];
-  sourceUrls?: string[];
-}
+import {
+  DictionaryProvider,
+  DictionaryResult,
+  getActiveProviders,
+  loadDictionarySettings,
+  loadDictionaryPreferences,
+} from './dictionaryProviders';
+import { dictionaryCacheRepository } from './repositories';
 
-export interface CachedWordData {
-  word: string;
-  definition: string | null;
-  example: string | null;
-  partOfSpeech: string | null;
-  audioUrl: string | null;
-  phonetic: string | null;
+export interface CachedWordData extends DictionaryResult {
   fetchedAt: number;
   notFound: boolean;
+  source: string | null; // id of the provider that supplied the entry
 }
 
-const CACHE_KEY = 'spellingBeeDictionaryCache';
 const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
-// Load cache from localStorage
-function loadCache(): Record<string, CachedWordData> {
-  try {
-    const cached = localStorage.getItem(CACHE_KEY);
-    if (cached) {
-      return JSON.parse(cached);
-    }
-  } catch (e) {
-    console.error('Failed to load dictionary cache:', e);
-  }
-  return {};
-}
+// Remote results kept in memory so lookups stay synchronous; the database
+// is read once and then written through
+const cache = new Map<string, CachedWordData>();
+let cacheLoaded: Promise<void> | null = null;
 
-// Save cache to localStorage
-function saveCache(cache: Record<string, CachedWordData>): void {
-  try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
-  } catch (e) {
-    console.error('Failed to save dictionary cache:', e);
-  }
+// Check if cached entry is still valid (entries from before meanings were
+// kept are refetched)
+function isCacheValid(entry: CachedWordData): boolean {
+  return Date.now() - entry.fetchedAt < CACHE_EXPIRY_MS && Array.isArray(entry.meanings);
 }
 
-// Check if cached entry is still valid
-function isCacheValid(entry: CachedWordData): boolean {
-  return Date.now() - entry.fetchedAt < CACHE_EXPIRY_MS;
+// Remote results are cached per provider so reordering doesn't mix sources
+function getCacheKey(provider: DictionaryProvider, word: string): string {
+  return `${provider.id}:${word}`;
 }
 
-// Get cached word data
-export function getCachedWord(word: string): CachedWordData | null {
-  const cache = loadCache();
-  const key = word.toLowerCase();
-  const entry = cache[key];
-  
-  if (entry && isCacheValid(entry)) {
-    return entry;
+// Read the stored cache into memory, dropping expired entries
+export function loadDictionaryCache(): Promise<void> {
+  if (!cacheLoaded) {
+    cacheLoaded = dictionaryCacheRepository.getAll()
+      .then(entries => {
+        entries.forEach((entry, key) => {
+          if (isCacheValid(entry)) {
+            if (!cache.has(key)) cache.set(key, entry);
+          } else {
+            dictionaryCacheRepository.delete(key).catch(() => {});
+          }
+        });
+      })
+      .catch(e => console.error('Failed to load dictionary cache:', e));
   }
-  
-  return null;
+  return cacheLoaded;
 }
 
-// Parse API response into simplified format
-function parseApiResponse(data: DictionaryEntry[]): Omit<CachedWordData, 'fetchedAt'> {
-  const entry = data[0];
-  
-  // Get the first definition and example
-  let definition: string | null = null;
-  let example: string | null = null;
-  let partOfSpeech: string | null = null;
-  
-  for (const meaning of entry.meanings) {
-    for (const def of meaning.definitions) {
-      if (!definition) {
-        definition = def.definition;
-        partOfSpeech = meaning.partOfSpeech;
-      }
-      if (!example && def.example) {
-        example = def.example;
-      }
-      if (definition && example) break;
-    }
-    if (definition && example) break;
-  }
-  
-  // Get audio URL (prefer US English)
-  let audioUrl: string | null = null;
-  if (entry.phonetics) {
-    for (const phonetic of entry.phonetics) {
-      if (phonetic.audio) {
-        audioUrl = phonetic.audio;
-        // Prefer US audio
-        if (phonetic.audio.includes('-us')) {
-          break;
-        }
-      }
-    }
-  }
-  
-  return {
-    word: entry.word,
-    definition,
-    example,
-    partOfSpeech,
-    audioUrl,
-    phonetic: entry.phonetic || null,
-    notFound: false,
-  };
+function saveCacheEntry(key: string, entry: CachedWordData): void {
+  cache.set(key, entry);
+  dictionaryCacheRepository.put(key, entry)
+    .catch(e => console.error('Failed to save dictionary cache:', e));
 }
 
-// Fetch word data from API
-export async function fetchWordData(word: string): Promise<CachedWordData> {
-  const key = word.toLowerCase();
-  
-  // Check cache first
-  const cached = getCachedWord(word);
-  if (cached) {
-    return cached;
-  }
-  
-  try {
-    const response = await fetch(
-      `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(key)}`
-    );
-    
-    if (!response.ok) {
-      // Word not found in dictionary
-      const notFoundEntry: CachedWordData = {
-        word: key,
-        definition: null,
-        example: null,
-        partOfSpeech: null,
-        audioUrl: null,
-        phonetic: null,
-        fetchedAt: Date.now(),
-        notFound: true,
-      };
-      
-      // Cache the not-found result too (to avoid repeated API calls)
-      const cache = loadCache();
-      cache[key] = notFoundEntry;
-      saveCache(cache);
-      
-      return notFoundEntry;
-    }
-    
-    const data: DictionaryEntry[] = await response.json();
-    const parsed = parseApiResponse(data);
-    
-    const entry: CachedWordData = {
-      ...parsed,
-      fetchedAt: Date.now(),
-    };
-    
-    // Save to cache
-    const cache = loadCache();
-    cache[key] = entry;
-    saveCache(cache);
-    
-    return entry;
-  } catch (error) {
-    console.error('Failed to fetch word data:', error);
-    
-    // Return a not-found entry on error (but don't cache network errors)
+function toWordData(word: string, result: DictionaryResult | null, source: string | null): CachedWordData {
+  if (!result) {
     return {
-      word: key,
+      word,
       definition: null,
       example: null,
       partOfSpeech: null,
+      meanings: [],
       audioUrl: null,
       phonetic: null,
       fetchedAt: Date.now(),
       notFound: true,
+      source,
     };
   }
+  return { ...result, fetchedAt: Date.now(), notFound: false, source };
+}
+
+// Get word data available without a network request.
+// Returns null if some provider still needs to be asked over the network.
+export function getCachedWord(word: string): CachedWordData | null {
+  const key = word.toLowerCase();
+
+  for (const provider of getActiveProviders()) {
+    if (provider.kind === 'local') {
+      const result = provider.lookup(key);
+      if (result) return toWordData(key, result, provider.id);
+      continue;
+    }
+
+    const entry = cache.get(getCacheKey(provider, key));
+    if (!entry || !isCacheValid(entry)) return null;
+    if (!entry.notFound) return entry;
+  }
+
+  // Every provider has already said it doesn't know this word
+  return toWordData(key, null, null);
+}
+
+// Ask providers in order until one returns an entry that `accept`s
+async function findWordData(
+  word: string,
+  accept: (entry: CachedWordData) => boolean
+): Promise<CachedWordData> {
+  const key = word.toLowerCase();
+  await loadDictionaryPreferences();
+  const settings = loadDictionarySettings();
+
+  for (const provider of getActiveProviders(settings)) {
+    if (provider.kind === 'local') {
+      const result = provider.lookup(key);
+      const entry = toWordData(key, result, provider.id);
+      if (result && accept(entry)) return entry;
+      continue;
+    }
+
+    await loadDictionaryCache();
+    const cacheKey = getCacheKey(provider, key);
+    const cached = cache.get(cacheKey);
+    if (cached && isCacheValid(cached)) {
+      if (!cached.notFound && accept(cached)) return cached;
+      continue;
+    }
+
+    try {
+      const result = await provider.lookup(key, settings);
+      const entry = toWordData(key, result, provider.id);
+
+      // Cache not-found results too (to avoid repeated API calls)
+      saveCacheEntry(cacheKey, entry);
+
+      if (result && accept(entry)) return entry;
+    } catch (error) {
+      // Don't cache network errors; try the next provider
+      console.error(`Failed to fetch word data from ${provider.name}:`, error);
+    }
+  }
+
+  return toWordData(key, null, null);
+}
+
+// Fetch word data from the first provider that knows the word
+export function fetchWordData(word: string): Promise<CachedWordData> {
+  return findWordData(word, () => true);
+}
+
+// Find a recorded pronunciation from the first provider that has one
+export async function fetchAudioUrl(word: string): Promise<string | null> {
+  const entry = await findWordData(word, e => !!e.audioUrl);
+  return entry.audioUrl;
 }
 
 // Prefetch multiple words (useful for quiz preparation)
 export async function prefetchWords(words: string[]): Promise<void> {
   const uncachedWords = words.filter(word => !getCachedWord(word));
-  
+
   // Fetch in batches to avoid overwhelming the API
   const batchSize = 5;
   for (let i = 0; i < uncachedWords.length; i += batchSize) {
     const batch = uncachedWords.slice(i, i + batchSize);
     await Promise.all(batch.map(word => fetchWordData(word)));
-    
+
     // Small delay between batches
     if (i + batchSize < uncachedWords.length) {
       await new Promise(resolve => setTimeout(resolve, 200));
@@ -212,20 +168,22 @@ export async function prefetchWords(words: string[]): Promise<void> {
 }
 
 // Clear the dictionary cache
-export function clearDictionaryCache(): void {
-  localStorage.removeItem(CACHE_KEY);
+export async function clearDictionaryCache(): Promise<void> {
+  await loadDictionaryCache();
+  cache.clear();
+  await dictionaryCacheRepository.clear();
 }
 
 // Get cache statistics
-export function getCacheStats(): { totalWords: number; cacheSize: string } {
-  const cache = loadCache();
-  const totalWords = Object.keys(cache).length;
-  const cacheSize = new Blob([JSON.stringify(cache)]).size;
-  
+export async function getCacheStats(): Promise<{ totalWords: number; cacheSize: string }> {
+  await loadDictionaryCache();
+  const totalWords = cache.size;
+  const cacheSize = new Blob([JSON.stringify(Array.from(cache.values()))]).size;
+
   return {
     totalWords,
-    cacheSize: cacheSize > 1024 
-      ? `${(cacheSize / 1024).toFixed(1)} KB` 
+    cacheSize: cacheSize > 1024
+      ? `${(cacheSize / 1024).toFixed(1)} KB`
       : `${cacheSize} bytes`,
   };
 }
@@ -0,0 +1,499 @@
+// Dictionary providers and the registry that chains them.
+// Each provider normalises its own source into a DictionaryResult.
+// Local providers answer synchronously from data in memory; remote providers
+// fetch over the network and their results are cached by dictionaryApi.
+
+import offlineDictionary from '../data/offlineDictionary.json';
+import { DICTIONARY_SETTINGS, DICTIONARY_OVERRIDES } from './database';
+import { dictionarySettingsRepository, dictionaryOverridesRepository } from './repositories';
+
+export interface WordSense {
+  definition: string;
+  example: string | null;
+  synonyms: string[];
+  antonyms: string[];
+}
+
+export interface WordMeaning {
+  partOfSpeech: string;
+  senses: WordSense[];
+  synonyms: string[];
+  antonyms: string[];
+}
+
+export interface DictionaryResult {
+  word: string;
+  // First definition and example, for quick use
+  definition: string | null;
+  example: string | null;
+  partOfSpeech: string | null;
+  meanings: WordMeaning[]; // every sense, grouped by part of speech
+  audioUrl: string | null;
+  phonetic: string | null;
+}
+
+interface BaseDictionaryProvider {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface LocalDictionaryProvider extends BaseDictionaryProvider {
+  kind: 'local';
+  // Returns null when the word isn't known to this provider
+  lookup: (word: string) => DictionaryResult | null;
+}
+
+export interface RemoteDictionaryProvider extends BaseDictionaryProvider {
+  kind: 'remote';
+  // Resolves to null when the word isn't found; rejects on network errors
+  lookup: (word: string, settings: DictionarySettings) => Promise<DictionaryResult | null>;
+  // Whether the provider has everything it needs (e.g. an API key)
+  isConfigured?: (settings: DictionarySettings) => boolean;
+}
+
+export type DictionaryProvider = LocalDictionaryProvider | RemoteDictionaryProvider;
+
+export interface DictionaryProviderSetting {
+  id: string;
+  enabled: boolean;
+}
+
+export interface DictionarySettings {
+  providers: DictionaryProviderSetting[]; // in lookup order
+  merriamWebsterApiKey: string;
+}
+
+export interface DictionaryOverride {
+  partOfSpeech: string;
+  definition: string;
+  example: string;
+}
+
+// Settings and overrides are kept in memory so lookups stay synchronous; the
+// database is read once (see loadDictionaryPreferences) and then written through
+let savedSettings: Partial<DictionarySettings> | null = null;
+let savedOverrides: Record<string, DictionaryOverride> | null = null;
+let preferencesLoaded: Promise<void> | null = null;
+
+// Read saved settings and overrides into memory, keeping any saved meanwhile
+export function loadDictionaryPreferences(): Promise<void> {
+  if (!preferencesLoaded) {
+    preferencesLoaded = Promise.all([
+      dictionarySettingsRepository.get(DICTIONARY_SETTINGS),
+      dictionaryOverridesRepository.get(DICTIONARY_OVERRIDES),
+    ])
+      .then(([settings, overrides]) => {
+        savedSettings = savedSettings ?? settings ?? null;
+        savedOverrides = savedOverrides ?? overrides ?? null;
+      })
+      .catch(e => console.error('Failed to load dictionary settings:', e));
+  }
+  return preferencesLoaded;
+}
+
+function emptyResult(word: string): DictionaryResult {
+  return {
+    word,
+    definition: null,
+    example: null,
+    partOfSpeech: null,
+    meanings: [],
+    audioUrl: null,
+    phonetic: null,
+  };
+}
+
+// Build a result from structured meanings, filling in the quick-use fields
+export function resultFromMeanings(
+  word: string,
+  meanings: WordMeaning[],
+  extras: Partial<DictionaryResult> = {}
+): DictionaryResult {
+  const nonEmpty = meanings.filter(m => m.senses.length > 0);
+  const first = nonEmpty[0];
+  const firstExample = nonEmpty
+    .flatMap(m => m.senses)
+    .find(s => s.example)?.example ?? null;
+
+  return {
+    ...emptyResult(word),
+    definition: first?.senses[0].definition ?? null,
+    example: firstExample,
+    partOfSpeech: first?.partOfSpeech ?? null,
+    meanings: nonEmpty,
+    ...extras,
+  };
+}
+
+// A single sense as a list of meanings (for sources with one definition)
+function singleMeaning(partOfSpeech: string, definition: string, example: string): WordMeaning[] {
+  return [{
+    partOfSpeech,
+    senses: [{ definition, example: example || null, synonyms: [], antonyms: [] }],
+    synonyms: [],
+    antonyms: [],
+  }];
+}
+
+// ---------------------------------------------------------------------------
+// User overrides
+
+export function getDictionaryOverrides(): Record<string, DictionaryOverride> {
+  return { ...savedOverrides };
+}
+
+// Replace every override at once (used when restoring a backup)
+export function saveDictionaryOverrides(overrides: Record<string, DictionaryOverride>): void {
+  savedOverrides = { ...overrides };
+  dictionaryOverridesRepository.put(DICTIONARY_OVERRIDES, savedOverrides)
+    .catch(e => console.error('Failed to save dictionary overrides:', e));
+}
+
+export function saveDictionaryOverride(word: string, override: DictionaryOverride): void {
+  const overrides = getDictionaryOverrides();
+  overrides[word.toLowerCase()] = override;
+  saveDictionaryOverrides(overrides);
+}
+
+export function deleteDictionaryOverride(word: string): void {
+  const overrides = getDictionaryOverrides();
+  delete overrides[word.toLowerCase()];
+  saveDictionaryOverrides(overrides);
+}
+
+export const overridesProvider: LocalDictionaryProvider = {
+  id: 'overrides',
+  name: 'My Definitions',
+  description: 'Definitions and examples you have written yourself.',
+  kind: 'local',
+  lookup: (word) => {
+    const override = getDictionaryOverrides()[word];
+    if (!override) return null;
+    return resultFromMeanings(
+      word,
+      singleMeaning(override.partOfSpeech, override.definition, override.example)
+    );
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Bundled local JSON file (definitions for the default word list)
+
+interface BundledEntry {
+  partOfSpeech: string;
+  definition: string;
+  example: string;
+}
+
+const BUNDLED_WORDS: Record<string, BundledEntry> = offlineDictionary;
+
+export const bundledProvider: LocalDictionaryProvider = {
+  id: 'bundled',
+  name: 'Offline Word Data',
+  description: 'Built-in definitions for the default word list. Works without internet.',
+  kind: 'local',
+  lookup: (word) => {
+    const entry = BUNDLED_WORDS[word];
+    if (!entry) return null;
+    return resultFromMeanings(
+      word,
+      singleMeaning(entry.partOfSpeech, entry.definition, entry.example)
+    );
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Free Dictionary API (api.dictionaryapi.dev)
+
+export interface DictionaryPhonetic {
+  text?: string;
+  audio?: string;
+}
+
+export interface DictionaryDefinition {
+  definition: string;
+  example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+export interface DictionaryMeaning {
+  partOfSpeech: string;
+  definitions: DictionaryDefinition[];
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+export interface DictionaryEntry {
+  word: string;
+  phonetic?: string;
+  phonetics?: DictionaryPhonetic[];
+  meanings: DictionaryMeaning[];
+  sourceUrls?: string[];
+}
+
+// Add a meaning, merging it into an existing one with the same part of speech
+function addMeaning(meanings: WordMeaning[], meaning: WordMeaning): void {
+  const existing = meanings.find(m => m.partOfSpeech === meaning.partOfSpeech);
+  if (!existing) {
+    meanings.push(meaning);
+    return;
+  }
+  existing.senses.push(...meaning.senses);
+  existing.synonyms = Array.from(new Set([...existing.synonyms, ...meaning.synonyms]));
+  existing.antonyms = Array.from(new Set([...existing.antonyms, ...meaning.antonyms]));
+}
+
+// Parse Free Dictionary API response, keeping every meaning of every entry
+export function parseFreeDictionaryResponse(data: DictionaryEntry[]): DictionaryResult {
+  const meanings: WordMeaning[] = [];
+  for (const entry of data) {
+    for (const meaning of entry.meanings) {
+      addMeaning(meanings, {
+        partOfSpeech: meaning.partOfSpeech,
+        senses: meaning.definitions.map(def => ({
+          definition: def.definition,
+          example: def.example || null,
+          synonyms: def.synonyms || [],
+          antonyms: def.antonyms || [],
+        })),
+        synonyms: meaning.synonyms || [],
+        antonyms: meaning.antonyms || [],
+      });
+    }
+  }
+
+  // Get audio URL (prefer US English)
+  let audioUrl: string | null = null;
+  const phonetics = data.flatMap(entry => entry.phonetics || []);
+  for (const phonetic of phonetics) {
+    if (phonetic.audio) {
+      audioUrl = phonetic.audio;
+      // Prefer US audio
+      if (phonetic.audio.includes('-us')) {
+        break;
+      }
+    }
+  }
+
+  return resultFromMeanings(data[0].word, meanings, {
+    audioUrl,
+    phonetic: data.find(entry => entry.phonetic)?.phonetic || null,
+  });
+}
+
+export const freeDictionaryProvider: RemoteDictionaryProvider = {
+  id: 'free-api',
+  name: 'Free Dictionary API',
+  description: 'dictionaryapi.dev. Needs an internet connection.',
+  kind: 'remote',
+  lookup: async (word) => {
+    const response = await fetch(
+      `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word)}`
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Free Dictionary API returned ${response.status}`);
+    const data: DictionaryEntry[] = await response.json();
+    return data.length > 0 ? parseFreeDictionaryResponse(data) : null;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Merriam-Webster style JSON (Collegiate Dictionary API)
+
+export interface MerriamWebsterPronunciation {
+  mw?: string;
+  sound?: { audio: string };
+}
+
+export interface MerriamWebsterEntry {
+  meta: { id: string };
+  hwi: { hw: string; prs?: MerriamWebsterPronunciation[] };
+  fl?: string; // functional label (part of speech)
+  shortdef?: string[];
+  def?: unknown[];
+}
+
+// Strip Merriam-Webster formatting tokens like {it}…{/it} and {sx|word||}
+function cleanMerriamWebsterText(text: string): string {
+  return text
+    .replace(/\{(?:ldquo|rdquo)\}/g, '"')
+    .replace(/\{bc\}/g, '')
+    .replace(/\{(?:sx|a_link|d_link|i_link|et_link|mat|dxt)\|([^|}]*)[^}]*\}/g, '$1')
+    .replace(/\{[^}]*\}/g, '')
+    .trim();
+}
+
+// Collect every sense in a definition tree. A sense is any object with a
+// defining text array (dt) holding ["text", …] and ["vis", [{ t }]] items.
+function collectMerriamWebsterSenses(node: unknown, senses: WordSense[]): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectMerriamWebsterSenses(child, senses));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  const dt = (node as { dt?: unknown }).dt;
+  if (!Array.isArray(dt)) {
+    Object.values(node).forEach(child => collectMerriamWebsterSenses(child, senses));
+    return;
+  }
+
+  const definition = dt
+    .filter(item => Array.isArray(item) && item[0] === 'text' && typeof item[1] === 'string')
+    .map(item => cleanMerriamWebsterText(item[1]))
+    .join(' ')
+    .trim();
+  const illustration = dt.find(item => Array.isArray(item) && item[0] === 'vis' && Array.isArray(item[1]));
+  const example = typeof illustration?.[1][0]?.t === 'string'
+    ? cleanMerriamWebsterText(illustration[1][0].t)
+    : null;
+
+  if (definition) {
+    senses.push({ definition, example, synonyms: [], antonyms: [] });
+  }
+}
+
+// Audio files live in a subdirectory chosen from the file name
+function getMerriamWebsterAudioUrl(audio: string): string {
+  let subdirectory = audio[0];
+  if (audio.startsWith('bix')) subdirectory = 'bix';
+  else if (audio.startsWith('gg')) subdirectory = 'gg';
+  else if (!/^[a-z]/i.test(audio)) subdirectory = 'number';
+  return `https://media.merriam-webster.com/audio/prons/en/us/mp3/${subdirectory}/${audio}.mp3`;
+}
+
+// Parse a Merriam-Webster response. When the word isn't found the API returns
+// a list of suggested spellings (strings) instead of entries.
+export function parseMerriamWebsterResponse(
+  word: string,
+  data: (MerriamWebsterEntry | string)[]
+): DictionaryResult | null {
+  const entries = data.filter((e): e is MerriamWebsterEntry => typeof e === 'object');
+  if (entries.length === 0) return null;
+
+  // Homographs of the word (e.g. "bass:1", "bass:2"), or the closest entry
+  const matching = entries.filter(e => e.meta.id.split(':')[0].toLowerCase() === word);
+  const used = matching.length > 0 ? matching : [entries[0]];
+
+  const meanings: WordMeaning[] = [];
+  for (const entry of used) {
+    const senses: WordSense[] = [];
+    collectMerriamWebsterSenses(entry.def, senses);
+    if (senses.length === 0) {
+      senses.push(...(entry.shortdef || []).map(definition => ({
+        definition,
+        example: null,
+        synonyms: [],
+        antonyms: [],
+      })));
+    }
+    addMeaning(meanings, { partOfSpeech: entry.fl || '', senses, synonyms: [], antonyms: [] });
+  }
+
+  const pronunciation = used[0].hwi.prs?.[0];
+  return resultFromMeanings(word, meanings, {
+    audioUrl: pronunciation?.sound ? getMerriamWebsterAudioUrl(pronunciation.sound.audio) : null,
+    phonetic: pronunciation?.mw || null,
+  });
+}
+
+export const merriamWebsterProvider: RemoteDictionaryProvider = {
+  id: 'merriam-webster',
+  name: 'Merriam-Webster',
+  description: 'Collegiate Dictionary API. Needs a free API key and an internet connection.',
+  kind: 'remote',
+  isConfigured: (settings) => settings.merriamWebsterApiKey.trim() !== '',
+  lookup: async (word, settings) => {
+    const response = await fetch(
+      `https://www.dictionaryapi.com/api/v3/references/collegiate/json/${encodeURIComponent(word)}` +
+      `?key=${encodeURIComponent(settings.merriamWebsterApiKey.trim())}`
+    );
+    if (!response.ok) throw new Error(`Merriam-Webster API returned ${response.status}`);
+    return parseMerriamWebsterResponse(word, await response.json());
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Stand-in provider (for tests and development)
+
+// A local provider that answers from a fixed set of entries
+export function createStandInProvider(
+  entries: Record<string, Partial<DictionaryResult>>,
+  id: string = 'stand-in'
+): LocalDictionaryProvider {
+  const byWord = Object.fromEntries(
+    Object.entries(entries).map(([word, entry]) => [word.toLowerCase(), entry])
+  );
+  return {
+    id,
+    name: 'Stand-in Dictionary',
+    description: 'Fixed test data.',
+    kind: 'local',
+    lookup: (word) => {
+      const entry = byWord[word];
+      if (!entry) return null;
+      // Entries given only a definition get a matching single meaning
+      const meanings = entry.meanings
+        || (entry.definition ? singleMeaning(entry.partOfSpeech || '', entry.definition, entry.example || '') : []);
+      return { ...resultFromMeanings(word, meanings), ...entry };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Registry and settings
+
+const registry = new Map<string, DictionaryProvider>();
+
+export function registerProvider(provider: DictionaryProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function unregisterProvider(id: string): void {
+  registry.delete(id);
+}
+
+export function getRegisteredProviders(): DictionaryProvider[] {
+  return Array.from(registry.values());
+}
+
+registerProvider(overridesProvider);
+registerProvider(bundledProvider);
+registerProvider(freeDictionaryProvider);
+registerProvider(merriamWebsterProvider);
+
+// Built-in providers that start disabled
+const DISABLED_BY_DEFAULT = ['merriam-webster'];
+
+// Saved settings, with unknown providers dropped and newly registered ones appended
+export function loadDictionarySettings(): DictionarySettings {
+  const saved = savedSettings ?? {};
+  const providers = (saved.providers || []).filter(p => registry.has(p.id));
+  for (const id of Array.from(registry.keys())) {
+    if (!providers.some(p => p.id === id)) {
+      providers.push({ id, enabled: !DISABLED_BY_DEFAULT.includes(id) });
+    }
+  }
+
+  return {
+    providers,
+    merriamWebsterApiKey: saved.merriamWebsterApiKey || '',
+  };
+}
+
+export function saveDictionarySettings(settings: DictionarySettings): void {
+  savedSettings = settings;
+  dictionarySettingsRepository.put(DICTIONARY_SETTINGS, settings)
+    .catch(e => console.error('Failed to save dictionary settings:', e));
+}
+
+// Enabled, configured providers in lookup order
+export function getActiveProviders(settings: DictionarySettings = loadDictionarySettings()): DictionaryProvider[] {
+  return settings.providers
+    .filter(p => p.enabled)
+    .map(p => registry.get(p.id))
+    .filter((p): p is DictionaryProvider => !!p)
+    .filter(p => p.kind === 'local' || !p.isConfigured || p.isConfigured(settings));
+}
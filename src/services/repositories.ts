@@ -0,0 +1,36 @@
+// Typed repositories over the IndexedDB stores
+
+import { createRepository } from './database';
+import { SpellingWord } from '../data/words';
+import { ScheduleMap } from '../data/scheduler';
+import { StatsMap } from '../data/wordStats';
+import { AppSettings, CustomWordList } from '../hooks/useSettings';
+import { CachedWordData } from './dictionaryApi';
+import { DictionarySettings, DictionaryOverride } from './dictionaryProviders';
+
+// Keyed by profile id
+export const settingsRepository = createRepository<Partial<AppSettings>>('settings');
+export const listsRepository = createRepository<CustomWordList[]>('lists');
+export const scheduleRepository = createRepository<ScheduleMap>('schedule');
+export const statsRepository = createRepository<StatsMap>('stats');
+
+// Keyed by profile id, or SHARED_WORD_BANK
+export const wordsRepository = createRepository<SpellingWord[]>('words');
+
+// Keyed by `${providerId}:${word}`
+export const dictionaryCacheRepository = createRepository<CachedWordData>('dictionaryCache');
+
+// Single records in the meta store, under DICTIONARY_SETTINGS and DICTIONARY_OVERRIDES
+export const dictionarySettingsRepository = createRepository<Partial<DictionarySettings>>('meta');
+export const dictionaryOverridesRepository = createRepository<Record<string, DictionaryOverride>>('meta');
+
+// Remove everything stored for a profile
+export async function deleteProfileData(profileId: string): Promise<void> {
+  await Promise.all([
+    settingsRepository.delete(profileId),
+    wordsRepository.delete(profileId),
+    listsRepository.delete(profileId),
+    scheduleRepository.delete(profileId),
+    statsRepository.delete(profileId),
+  ]);
+}
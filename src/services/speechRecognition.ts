@@ -0,0 +1,98 @@
+// Speech recognition for spoken answers. The browser's SpeechRecognition is
+// only reached through createRecognizer, so tests can pass a stub instead.
+
+// The parts of SpeechRecognition we use (not in TypeScript 4.9's DOM types)
+export interface RecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+}
+
+export interface SpeechRecognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+export type CreateRecognizer = () => SpeechRecognizer;
+
+type RecognizerConstructor = new () => SpeechRecognizer;
+
+// The browser's recognizer, or null where speech recognition isn't available
+export function getBrowserRecognizer(): CreateRecognizer | null {
+  const scope = window as unknown as {
+    SpeechRecognition?: RecognizerConstructor;
+    webkitSpeechRecognition?: RecognizerConstructor;
+  };
+  const Recognition = scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+  return Recognition ? () => new Recognition() : null;
+}
+
+export interface ListenHandlers {
+  onTranscript: (transcript: string) => void; // everything heard so far, updated as it comes in
+  onEnd: (transcript: string) => void;
+  onError: (message: string) => void;
+}
+
+export interface ListeningSession {
+  stop: () => void; // finish and keep what was heard
+  cancel: () => void; // finish and throw it away
+}
+
+function getErrorMessage(error: string): string {
+  switch (error) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return 'Microphone access was blocked. Allow it in the browser to spell aloud.';
+    case 'no-speech':
+      return "Didn't hear anything. Try again!";
+    case 'audio-capture':
+      return 'No microphone was found.';
+    case 'network':
+      return 'Speech recognition needs an internet connection in this browser.';
+    default:
+      return `Speech recognition stopped (${error}).`;
+  }
+}
+
+// Listen until the speaker stops (or stop() is called), reporting the
+// transcript as it grows
+export function listen(createRecognizer: CreateRecognizer, handlers: ListenHandlers): ListeningSession {
+  const recognizer = createRecognizer();
+  let transcript = '';
+  let cancelled = false;
+
+  recognizer.lang = 'en-US';
+  recognizer.continuous = true; // letters come with pauses between them
+  recognizer.interimResults = true;
+
+  recognizer.onresult = (event) => {
+    const parts: string[] = [];
+    for (let i = 0; i < event.results.length; i++) {
+      parts.push(event.results[i][0].transcript.trim());
+    }
+    transcript = parts.filter(Boolean).join(' ');
+    if (!cancelled) handlers.onTranscript(transcript);
+  };
+  recognizer.onerror = (event) => {
+    // Aborting is how cancel() works, not a failure
+    if (!cancelled && event.error !== 'aborted') handlers.onError(getErrorMessage(event.error));
+  };
+  recognizer.onend = () => {
+    if (!cancelled) handlers.onEnd(transcript);
+  };
+
+  recognizer.start();
+
+  return {
+    stop: () => recognizer.stop(),
+    cancel: () => {
+      cancelled = true;
+      recognizer.abort();
+    },
+  };
+}